@@ -0,0 +1 @@
+ALTER TABLE `posts` ADD `metadata` text;
\ No newline at end of file
@@ -1,5 +1,11 @@
 import { relations, sql } from 'drizzle-orm';
-import { index, integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import {
+	type AnySQLiteColumn,
+	index,
+	integer,
+	sqliteTable,
+	text,
+} from 'drizzle-orm/sqlite-core';
 
 // Users table with soft delete
 export const users = sqliteTable(
@@ -37,7 +43,9 @@ export const categories = sqliteTable('categories', {
 	name: text('name').notNull().unique(),
 	slug: text('slug').notNull().unique(),
 	description: text('description'),
-	parentId: integer('parent_id').references(() => categories.id),
+	parentId: integer('parent_id').references(
+		(): AnySQLiteColumn => categories.id,
+	),
 	order: integer('order').notNull().default(0),
 	createdAt: integer('created_at', { mode: 'timestamp' })
 		.notNull()
@@ -63,6 +71,10 @@ export const posts = sqliteTable(
 		featuredImageUrl: text('featured_image_url'),
 		viewCount: integer('view_count').notNull().default(0),
 		publishedAt: integer('published_at', { mode: 'timestamp' }),
+		metadata: text('metadata', { mode: 'json' }).$type<{
+			featured?: boolean;
+			seo?: { score?: number; keywords?: string[] };
+		}>(),
 		createdAt: integer('created_at', { mode: 'timestamp' })
 			.notNull()
 			.default(sql`(unixepoch())`),
@@ -89,7 +101,9 @@ export const comments = sqliteTable(
 		authorId: integer('author_id')
 			.notNull()
 			.references(() => users.id),
-		parentId: integer('parent_id').references(() => comments.id),
+		parentId: integer('parent_id').references(
+			(): AnySQLiteColumn => comments.id,
+		),
 		status: text('status', { enum: ['pending', 'approved', 'spam'] })
 			.notNull()
 			.default('pending'),
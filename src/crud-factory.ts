@@ -1,24 +1,43 @@
-import { eq, isNull, like, or, SQL } from 'drizzle-orm';
+import { getTableName, or, SQL, type SQLWrapper, sql } from 'drizzle-orm';
 
+import { createAggregateMethod } from './crud/aggregate.ts';
 import { createBulkCreateMethod } from './crud/bulkCreate.ts';
 import { createBulkDeleteMethod } from './crud/bulkDelete.ts';
 import { createBulkRestoreMethod } from './crud/bulkRestore.ts';
 import { createCreateMethod } from './crud/create.ts';
 import { createDeleteOneMethod } from './crud/deleteOne.ts';
+import { createDistinctMethod } from './crud/distinct.ts';
+import { createExportMethod } from './crud/export.ts';
+import { createFacetsMethod } from './crud/facets.ts';
 import { createFindOneMethod } from './crud/findOne.ts';
+import { createImportMethod } from './crud/import.ts';
+import { createIterateMethod } from './crud/iterate.ts';
+import { createIterateBatchesMethod } from './crud/iterateBatches.ts';
 import { createListMethod } from './crud/list.ts';
 import { createPermanentDeleteMethod } from './crud/permanentDelete.ts';
 import { createRestoreMethod } from './crud/restore.ts';
 import { createUpdateMethod } from './crud/update.ts';
+import { getNotDeletedCondition } from './crud/utils.ts';
+import { escapeLike, foldCase, isJsonPath } from './filters.ts';
+import { toMatchQuery } from './fts.ts';
+import {
+	getTableRelationalConfig,
+	getToOneFieldPaths,
+	relatedFieldExists,
+} from './relations.ts';
 import type {
 	Actor,
 	CrudOptions,
+	CrudRegistry,
 	DrizzleColumn,
 	DrizzleDatabase,
 	DrizzleTableWithId,
+	FilterContext,
 	ListSchemaOptions,
 	OperationContext,
 	ScopeFilters,
+	SearchField,
+	SearchMode,
 	ValidationAdapter,
 } from './types.ts';
 
@@ -29,6 +48,7 @@ function createSchemas<
 	TScopeFilters extends ScopeFilters<T, TActor> = ScopeFilters<T, TActor>,
 	TValidation extends ValidationAdapter<T> = ValidationAdapter<T>,
 >(
+	db: TDatabase,
 	table: T,
 	options: CrudOptions<TDatabase, T, TActor, TScopeFilters>,
 	validation?: TValidation,
@@ -45,6 +65,9 @@ function createSchemas<
 	const listOptions: ListSchemaOptions<T> = {
 		searchFields: options.searchFields,
 		allowedFilters: options.allowedFilters,
+		relationOrderFields: getToOneFieldPaths(db, table),
+		allowedJsonPaths: options.allowedJsonPaths,
+		allowedRelationFilters: options.allowedRelationFilters,
 		defaultPageSize: options.defaultPageSize,
 		maxPageSize: options.maxPageSize,
 		allowIncludeDeleted: !!options.softDelete,
@@ -80,6 +103,7 @@ export function crudFactory<
 	db: TDatabase,
 	table: T,
 	options: CrudOptions<TDatabase, T, TActor, TScopeFilters> = {},
+	registry: CrudRegistry = new Map(),
 ) {
 	if (!table) {
 		throw new Error('Table is required for crudFactory');
@@ -87,12 +111,16 @@ export function crudFactory<
 
 	const {
 		searchFields = [],
+		searchMode = 'contains',
+		searchWeights,
+		fullTextSearch,
 		defaultPageSize = 20,
 		maxPageSize = 100,
 		allowedFilters = [],
 		softDelete,
 		scopeFilters = {} as TScopeFilters,
 		validation,
+		caseFold,
 	} = options;
 
 	// Access table name from Symbol for SQLite compatibility
@@ -108,23 +136,154 @@ export function crudFactory<
 		tableNameSymbol
 	] as keyof TDatabase['_']['fullSchema'];
 
-	const schemas = createSchemas(table, options, validation);
+	const schemas = createSchemas(db, table, options, validation);
+
+	const isRelationPath = (field: PropertyKey): field is string =>
+		typeof field === 'string' && field.includes('.');
+
+	for (const path of options.allowedJsonPaths ?? []) {
+		if (!isJsonPath(table, path)) {
+			throw new Error(`"${path}" is not a path of a JSON column`);
+		}
+	}
+
+	const filterContext: FilterContext = {
+		db,
+		registry,
+		allowedRelationFilters: options.allowedRelationFilters,
+		clock: options.clock,
+		caseFold,
+	};
+
+	for (const relationName of options.allowedRelationFilters ?? []) {
+		if (!getTableRelationalConfig(db, table)?.relations[relationName]) {
+			throw new Error(
+				`Unknown relation "${relationName}" on table "${getTableName(table)}"`,
+			);
+		}
+	}
+
+	if (fullTextSearch && searchFields.some(isRelationPath)) {
+		throw new Error(
+			'Relation paths in searchFields are not supported with fullTextSearch',
+		);
+	}
+
+	// The bm25 weights follow the columns of the FTS5 table
+	const fullTextFields = (fullTextSearch?.fields ?? searchFields) as string[];
+
+	if (fullTextSearch) {
+		for (const field of searchFields) {
+			if (!fullTextFields.includes(field as string)) {
+				throw new Error(
+					`Search field "${String(field)}" is not indexed by "${fullTextSearch.table}"`,
+				);
+			}
+		}
+	}
+
+	registry.set(table, options);
 
 	const getColumn = (key: keyof T['$inferInsert']) => {
 		return table[key as keyof T] as DrizzleColumn<any, any, any>;
 	};
 
-	const applySearch = (conditions: SQL[], search?: string) => {
-		if (search?.trim() && searchFields.length > 0) {
-			const searchConditions = searchFields.map((field) =>
-				// Use 'like' for SQLite compatibility (case-sensitive)
-				// TODO: In the future, implement dialect detection for proper case-insensitive search
-				like(getColumn(field), `%${search}%`),
+	const getSearchTerms = (search?: string, mode: SearchMode = searchMode) => {
+		const term = search?.trim();
+
+		if (!term || searchFields.length === 0) return [];
+
+		// An exact search compares the whole term, the others match word by word
+		return mode === 'exact' ? [term] : term.split(/\s+/);
+	};
+
+	const matchField = (
+		field: SearchField<TDatabase, T>,
+		term: string,
+		mode: SearchMode,
+	): SQL => {
+		// The database folds both sides with the same function, instead of
+		// relying on LIKE's ASCII-only case folding
+		const pattern =
+			mode === 'prefix' ? `${escapeLike(term)}%` : `%${escapeLike(term)}%`;
+		const fold = (value: SQLWrapper) => foldCase(value, caseFold);
+
+		const match = (column: DrizzleColumn) =>
+			mode === 'exact'
+				? sql`${fold(column)} = ${fold(sql`${term}`)}`
+				: sql`${fold(column)} like ${fold(sql`${pattern}`)} escape '\\'`;
+
+		if (isRelationPath(field)) {
+			return relatedFieldExists(db, table, field, match, registry);
+		}
+
+		return match(getColumn(field as keyof T['$inferInsert']));
+	};
+
+	const applySearch = (
+		conditions: SQL[],
+		search?: string,
+		mode: SearchMode = searchMode,
+	) => {
+		const terms = getSearchTerms(search, mode);
+
+		if (terms.length === 0) return;
+
+		if (fullTextSearch) {
+			const fts = sql.identifier(fullTextSearch.table);
+
+			conditions.push(
+				sql`${table.id} in (select rowid from ${fts} where ${fts} match ${toMatchQuery(terms.join(' '), mode)})`,
+			);
+			return;
+		}
+
+		// Every term has to match at least one of the searchFields
+		for (const term of terms) {
+			conditions.push(
+				or(...searchFields.map((field) => matchField(field, term, mode)))!,
 			);
-			conditions.push(or(...searchConditions)!);
 		}
 	};
 
+	/**
+	 * How well a row matches the search, higher is better: the sum of the
+	 * weights of the fields matched by each term, or the negated bm25 rank
+	 * with full-text search.
+	 */
+	const getRelevance = (
+		search?: string,
+		mode: SearchMode = searchMode,
+	): SQL | undefined => {
+		const terms = getSearchTerms(search, mode);
+
+		if (terms.length === 0) return;
+
+		const weightOf = (field: SearchField<TDatabase, T>) =>
+			searchWeights?.[field] ?? 1;
+
+		if (fullTextSearch) {
+			const fts = sql.identifier(fullTextSearch.table);
+			const weights = sql.join(
+				fullTextFields.map(
+					(field) => sql`${weightOf(field as SearchField<TDatabase, T>)}`,
+				),
+				sql`, `,
+			);
+
+			return sql`(select -bm25(${fts}, ${weights}) from ${fts} where ${fts} match ${toMatchQuery(terms.join(' '), mode)} and rowid = ${table.id})`;
+		}
+
+		const scores = terms.flatMap((term) =>
+			searchFields.map(
+				(field) =>
+					sql`case when ${matchField(field, term, mode)} then ${weightOf(field)} else 0 end`,
+			),
+		);
+
+		return sql`(${sql.join(scores, sql` + `)})`;
+	};
+
 	const applyScopeFilters = (
 		conditions: SQL[],
 		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
@@ -146,15 +305,9 @@ export function crudFactory<
 	const applySoftDeleteFilter = (conditions: SQL[], includeDeleted = false) => {
 		if (!softDelete || includeDeleted) return conditions;
 
-		const column = getColumn(softDelete.field);
-		const notDeletedValue = softDelete.notDeletedValue ?? null;
-
-		// Use isNull for null values, eq for other values
-		if (notDeletedValue === null) {
-			conditions.push(isNull(column));
-		} else {
-			conditions.push(eq(column, notDeletedValue));
-		}
+		conditions.push(
+			getNotDeletedCondition(getColumn(softDelete.field), softDelete),
+		);
 		return conditions;
 	};
 
@@ -179,6 +332,7 @@ export function crudFactory<
 		table,
 		tableName,
 		options,
+		registry,
 		getColumn,
 		applyScopeFilters,
 		applySoftDeleteFilter,
@@ -189,17 +343,72 @@ export function crudFactory<
 		table,
 		tableName,
 		options,
+		registry,
 		schemas,
 		defaultPageSize,
 		maxPageSize,
 		searchFields,
 		allowedFilters,
+		filterContext,
+		getColumn,
+		applySearch,
+		getRelevance,
+		applyScopeFilters,
+		applySoftDeleteFilter,
+	});
+
+	const aggregate = createAggregateMethod({
+		db,
+		table,
+		options,
+		schemas,
+		allowedFilters,
+		filterContext,
 		getColumn,
 		applySearch,
 		applyScopeFilters,
 		applySoftDeleteFilter,
 	});
 
+	const facets = createFacetsMethod({
+		options,
+		schemas,
+		allowedFilters,
+		aggregate,
+	});
+
+	const distinct = createDistinctMethod({
+		db,
+		table,
+		options,
+		schemas,
+		defaultPageSize,
+		maxPageSize,
+		allowedFilters,
+		filterContext,
+		getColumn,
+		applySearch,
+		applyScopeFilters,
+		applySoftDeleteFilter,
+	});
+
+	const iterateBatches = createIterateBatchesMethod({
+		db,
+		table,
+		options,
+		schemas,
+		maxPageSize,
+		allowedFilters,
+		filterContext,
+		applySearch,
+		applyScopeFilters,
+		applySoftDeleteFilter,
+	});
+
+	const iterate = createIterateMethod({ iterateBatches });
+
+	const exportRows = createExportMethod({ table, iterateBatches });
+
 	const update = createUpdateMethod({
 		db,
 		table,
@@ -239,6 +448,13 @@ export function crudFactory<
 		schemas,
 	});
 
+	const importRows = createImportMethod({
+		db,
+		table,
+		options,
+		schemas,
+	});
+
 	const bulkDelete = createBulkDeleteMethod({
 		db,
 		table,
@@ -259,11 +475,18 @@ export function crudFactory<
 		create,
 		findOne,
 		list,
+		aggregate,
+		facets,
+		distinct,
+		iterate,
+		iterateBatches,
+		export: exportRows,
 		update,
 		deleteOne,
 		restore,
 		permanentDelete,
 		bulkCreate,
+		import: importRows,
 		bulkDelete,
 		bulkRestore,
 	};
@@ -0,0 +1,231 @@
+import {
+	and,
+	asc,
+	avg,
+	count,
+	countDistinct,
+	desc,
+	max,
+	min,
+	type SQL,
+	sql,
+} from 'drizzle-orm';
+
+import { operatorToCondition, parseFilters } from '../filters.ts';
+import type { StandardSchemaV1 } from '../standard-schema.ts';
+import type {
+	Actor,
+	AggregateMetric,
+	AggregateParams,
+	AggregateResult,
+	CrudOptions,
+	DrizzleColumn,
+	DrizzleDatabase,
+	DrizzleTableWithId,
+	FilterContext,
+	ListParams,
+	OperationContext,
+	ScopeFilters,
+} from '../types.ts';
+import { createValidate, getDb } from './utils.ts';
+
+export type AggregateContext<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor,
+	TScopeFilters extends ScopeFilters<T, TActor>,
+> = {
+	db: TDatabase;
+	table: T;
+	options: CrudOptions<TDatabase, T, TActor, TScopeFilters>;
+	schemas: {
+		listSchema?: StandardSchemaV1<ListParams<T>>;
+	};
+	allowedFilters: (keyof T['$inferSelect'])[];
+	filterContext: FilterContext;
+	getColumn: (key: keyof T['$inferInsert']) => DrizzleColumn<any, any, any>;
+	applySearch: (conditions: SQL[], search?: string) => void;
+	applyScopeFilters: (
+		conditions: SQL[],
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	) => SQL[];
+	applySoftDeleteFilter: (conditions: SQL[], includeDeleted?: boolean) => SQL[];
+};
+
+export function createAggregateMethod<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor = Actor,
+	TScopeFilters extends ScopeFilters<T, TActor> = ScopeFilters<T, TActor>,
+>(ctx: AggregateContext<TDatabase, T, TActor, TScopeFilters>) {
+	const {
+		db,
+		table,
+		options,
+		schemas,
+		allowedFilters,
+		filterContext,
+		getColumn,
+		applySearch,
+		applyScopeFilters,
+		applySoftDeleteFilter,
+	} = ctx;
+
+	const validate = createValidate(options.hooks);
+
+	const getAggregateColumn = (field: PropertyKey) => {
+		const column = getColumn(field as keyof T['$inferInsert']);
+
+		if (!column) {
+			throw new Error(`Unknown column "${String(field)}"`);
+		}
+
+		return column;
+	};
+
+	const metricToSql = (metric: AggregateMetric<T>): SQL => {
+		switch (metric.fn) {
+			case 'count':
+				return metric.field ? count(getAggregateColumn(metric.field)) : count();
+			case 'countDistinct':
+				return countDistinct(getAggregateColumn(metric.field));
+			case 'sum':
+				// total() would turn an empty group into 0.0, sum() keeps it null
+				return sql`sum(${getAggregateColumn(metric.field)})`.mapWith(Number);
+			case 'avg':
+				return avg(getAggregateColumn(metric.field)).mapWith(Number);
+			case 'min':
+				return min(getAggregateColumn(metric.field));
+			case 'max':
+				return max(getAggregateColumn(metric.field));
+			default:
+				throw new Error(
+					`Unknown aggregate function "${(metric as AggregateMetric<T>).fn}"`,
+				);
+		}
+	};
+
+	return async function aggregate<
+		TGroupBy extends keyof T['$inferSelect'] = never,
+		TMetrics extends Record<string, AggregateMetric<T>> = Record<string, never>,
+	>(
+		params: AggregateParams<T, TGroupBy, TMetrics>,
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	): Promise<AggregateResult<T['$inferSelect'], TGroupBy, TMetrics>[]> {
+		const dbInstance = getDb(db, context);
+		const { groupBy = [], metrics, having, orderBy, limit } = params;
+
+		const { search, filters, includeDeleted } = await validate(
+			'aggregate',
+			{
+				search: params.search,
+				filters: params.filters,
+				includeDeleted: params.includeDeleted,
+			},
+			schemas.listSchema,
+			context,
+		);
+
+		const conditions: SQL[] = parseFilters(
+			table,
+			filters,
+			allowedFilters,
+			options.allowedJsonPaths,
+			filterContext,
+		);
+
+		applySearch(conditions, search);
+		applyScopeFilters(conditions, context);
+		applySoftDeleteFilter(conditions, includeDeleted);
+
+		const groupColumns = Object.fromEntries(
+			groupBy.map((field) => [field, getAggregateColumn(field)]),
+		);
+		const metricExpressions: Record<string, SQL> = Object.fromEntries(
+			Object.entries(metrics).map(([name, metric]) => [
+				name,
+				metricToSql(metric),
+			]),
+		);
+
+		for (const name of Object.keys(metricExpressions)) {
+			if (name in groupColumns) {
+				throw new Error(`Metric "${name}" conflicts with a groupBy field`);
+			}
+		}
+
+		const havingConditions: SQL[] = [];
+
+		Object.entries(having ?? {}).forEach(([name, filterValue]) => {
+			const expression = metricExpressions[name];
+
+			if (!expression) {
+				throw new Error(`Unknown metric "${name}" in having`);
+			}
+
+			if (filterValue === undefined) return;
+
+			if (
+				typeof filterValue === 'object' &&
+				filterValue !== null &&
+				!(filterValue instanceof Date)
+			) {
+				const { bounds, tz, ...operators } = filterValue;
+				const now = filterContext.clock?.();
+
+				Object.entries(operators).forEach(([operator, value]) => {
+					const condition = operatorToCondition(expression, operator, value, {
+						bounds,
+						tz,
+						now,
+						caseFold: filterContext.caseFold,
+					});
+
+					if (condition) {
+						havingConditions.push(condition);
+					}
+				});
+			} else {
+				havingConditions.push(
+					operatorToCondition(expression, 'equals', filterValue)!,
+				);
+			}
+		});
+
+		const order = orderBy?.map(({ field, direction }) => {
+			const expression =
+				metricExpressions[field as string] ??
+				groupColumns[field as string] ??
+				getAggregateColumn(field);
+
+			return direction === 'desc' ? desc(expression) : asc(expression);
+		});
+
+		let query = (dbInstance as any)
+			.select({ ...groupColumns, ...metricExpressions })
+			.from(table)
+			.$dynamic();
+
+		if (conditions.length > 0) {
+			query = query.where(and(...conditions));
+		}
+
+		if (groupBy.length > 0) {
+			query = query.groupBy(...Object.values(groupColumns));
+		}
+
+		if (havingConditions.length > 0) {
+			query = query.having(and(...havingConditions));
+		}
+
+		if (order && order.length > 0) {
+			query = query.orderBy(...order);
+		}
+
+		if (limit !== undefined) {
+			query = query.limit(limit);
+		}
+
+		return query;
+	};
+}
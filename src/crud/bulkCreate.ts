@@ -1,13 +1,15 @@
 import type { StandardSchemaV1 } from '../standard-schema.ts';
 import type {
 	Actor,
+	ColumnsSelection,
 	CrudOptions,
 	DrizzleDatabase,
 	DrizzleTableWithId,
-	OperationContext,
+	MutationContext,
 	ScopeFilters,
+	SelectedColumns,
 } from '../types.ts';
-import { createValidate, getDb } from './utils.ts';
+import { createValidate, getDb, getSelectedFields } from './utils.ts';
 
 export type BulkCreateContext<
 	TDatabase extends DrizzleDatabase,
@@ -33,13 +35,13 @@ export function createBulkCreateMethod<
 	const { hooks = {} } = options;
 	const validate = createValidate(hooks);
 
-	return async (
+	return async <TColumns extends ColumnsSelection<T> | undefined = undefined>(
 		data: T['$inferInsert'][],
-		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+		context?: MutationContext<TDatabase, T, TActor, TScopeFilters, TColumns>,
 	): Promise<{
 		success: boolean;
 		count: number;
-		items: T['$inferSelect'][];
+		items: SelectedColumns<T['$inferSelect'], TColumns>[];
 	}> => {
 		// Handle empty array
 		if (data.length === 0) {
@@ -70,12 +72,12 @@ export function createBulkCreateMethod<
 		const items = await dbInstance
 			.insert(table)
 			.values(transformedData)
-			.returning();
+			.returning(getSelectedFields(table, context?.columns));
 
 		return {
 			success: true,
 			count: items.length,
-			items: items as T['$inferSelect'][],
+			items: items as SelectedColumns<T['$inferSelect'], TColumns>[],
 		};
 	};
 }
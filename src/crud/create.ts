@@ -1,13 +1,15 @@
 import type { StandardSchemaV1 } from '../standard-schema.ts';
 import type {
 	Actor,
+	ColumnsSelection,
 	CrudOptions,
 	DrizzleDatabase,
 	DrizzleTableWithId,
-	OperationContext,
+	MutationContext,
 	ScopeFilters,
+	SelectedColumns,
 } from '../types.ts';
-import { createValidate, getDb } from './utils.ts';
+import { createValidate, getDb, getSelectedFields } from './utils.ts';
 
 export type CreateContext<
 	TDatabase extends DrizzleDatabase,
@@ -33,10 +35,10 @@ export function createCreateMethod<
 	const { hooks = {} } = options;
 	const validate = createValidate(hooks);
 
-	return async (
+	return async <TColumns extends ColumnsSelection<T> | undefined = undefined>(
 		data: T['$inferInsert'],
-		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
-	): Promise<T['$inferSelect']> => {
+		context?: MutationContext<TDatabase, T, TActor, TScopeFilters, TColumns>,
+	): Promise<SelectedColumns<T['$inferSelect'], TColumns>> => {
 		const validatedData = await validate(
 			'create',
 			data,
@@ -55,8 +57,8 @@ export function createCreateMethod<
 		const [result] = await dbInstance
 			.insert(table)
 			.values(transformed)
-			.returning();
+			.returning(getSelectedFields(table, context?.columns));
 
-		return result as T['$inferSelect'];
+		return result as SelectedColumns<T['$inferSelect'], TColumns>;
 	};
 }
@@ -0,0 +1,147 @@
+import { and, type SQL } from 'drizzle-orm';
+
+import {
+	buildKeysetCondition,
+	decodeCursor,
+	encodeCursor,
+	type KeysetEntry,
+} from '../cursor.ts';
+import { parseFilters } from '../filters.ts';
+import type { StandardSchemaV1 } from '../standard-schema.ts';
+import type {
+	Actor,
+	CrudOptions,
+	DistinctParams,
+	DistinctResult,
+	DrizzleColumn,
+	DrizzleDatabase,
+	DrizzleTableWithId,
+	FilterContext,
+	ListParams,
+	OperationContext,
+	ScopeFilters,
+} from '../types.ts';
+import { createValidate, getDb, toOrderBy } from './utils.ts';
+
+export type DistinctContext<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor,
+	TScopeFilters extends ScopeFilters<T, TActor>,
+> = {
+	db: TDatabase;
+	table: T;
+	options: CrudOptions<TDatabase, T, TActor, TScopeFilters>;
+	schemas: {
+		listSchema?: StandardSchemaV1<ListParams<T>>;
+	};
+	defaultPageSize: number;
+	maxPageSize: number;
+	allowedFilters: (keyof T['$inferSelect'])[];
+	filterContext: FilterContext;
+	getColumn: (key: keyof T['$inferInsert']) => DrizzleColumn<any, any, any>;
+	applySearch: (conditions: SQL[], search?: string) => void;
+	applyScopeFilters: (
+		conditions: SQL[],
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	) => SQL[];
+	applySoftDeleteFilter: (conditions: SQL[], includeDeleted?: boolean) => SQL[];
+};
+
+export function createDistinctMethod<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor = Actor,
+	TScopeFilters extends ScopeFilters<T, TActor> = ScopeFilters<T, TActor>,
+>(ctx: DistinctContext<TDatabase, T, TActor, TScopeFilters>) {
+	const {
+		db,
+		table,
+		options,
+		schemas,
+		defaultPageSize,
+		maxPageSize,
+		allowedFilters,
+		filterContext,
+		getColumn,
+		applySearch,
+		applyScopeFilters,
+		applySoftDeleteFilter,
+	} = ctx;
+
+	const validate = createValidate(options.hooks);
+
+	/**
+	 * Lists the distinct values of a field, a page at a time. Pages seek past
+	 * the last value of the previous page, so deep pages stay cheap.
+	 */
+	return async function distinct<TField extends keyof T['$inferSelect']>(
+		field: TField,
+		params: DistinctParams<T> = {},
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	): Promise<DistinctResult<T['$inferSelect'][TField]>> {
+		const dbInstance = getDb(db, context);
+
+		if (!allowedFilters.includes(field)) {
+			throw new Error(`Field "${String(field)}" is not an allowed filter`);
+		}
+
+		const { limit = defaultPageSize, after } = params;
+
+		if (!Number.isInteger(limit) || limit < 1) {
+			throw new Error('limit must be a positive integer');
+		}
+
+		const { search, filters, includeDeleted } = await validate(
+			'distinct',
+			{
+				search: params.search,
+				filters: params.filters,
+				includeDeleted: params.includeDeleted,
+			},
+			schemas.listSchema,
+			context,
+		);
+
+		const column = getColumn(field as keyof T['$inferInsert']);
+		const keyset: KeysetEntry[] = [
+			{ field: 'value', column, direction: 'asc', nulls: 'last' },
+		];
+
+		const conditions: SQL[] = parseFilters(
+			table,
+			filters,
+			allowedFilters,
+			options.allowedJsonPaths,
+			filterContext,
+		);
+
+		applySearch(conditions, search);
+		applyScopeFilters(conditions, context);
+		applySoftDeleteFilter(conditions, includeDeleted);
+
+		if (after) {
+			conditions.push(
+				buildKeysetCondition(keyset, decodeCursor(keyset, after)),
+			);
+		}
+
+		const pageSize = Math.min(limit, maxPageSize);
+
+		// One extra row tells whether another page follows
+		const rows: { value: T['$inferSelect'][TField] }[] = await dbInstance
+			.selectDistinct({ value: column })
+			.from(table)
+			.where(and(...conditions))
+			.orderBy(toOrderBy(column, 'asc', 'last'))
+			.limit(pageSize + 1);
+
+		const pageRows = rows.slice(0, pageSize);
+
+		return {
+			values: pageRows.map((row) => row.value),
+			nextCursor:
+				rows.length > pageSize ? encodeCursor(keyset, pageRows.at(-1)!) : null,
+		};
+	};
+}
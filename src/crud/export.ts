@@ -0,0 +1,156 @@
+import { getTableColumns } from 'drizzle-orm';
+
+import type {
+	Actor,
+	ColumnsSelection,
+	DrizzleDatabase,
+	DrizzleTableWithId,
+	ExportOptions,
+	ExportParams,
+	IterateParams,
+	OperationContext,
+	ScopeFilters,
+} from '../types.ts';
+
+export type ExportContext<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor,
+	TScopeFilters extends ScopeFilters<T, TActor>,
+> = {
+	table: T;
+	iterateBatches: <TParams extends IterateParams<T>>(
+		params?: TParams,
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	) => AsyncGenerator<Record<string, unknown>[]>;
+};
+
+export function createExportMethod<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor = Actor,
+	TScopeFilters extends ScopeFilters<T, TActor> = ScopeFilters<T, TActor>,
+>(ctx: ExportContext<TDatabase, T, TActor, TScopeFilters>) {
+	const { table, iterateBatches } = ctx;
+
+	/**
+	 * Streams the matching rows as text chunks, one per batch, ready to be
+	 * piped into a response or a file.
+	 */
+	return async function* exportRows<TField extends keyof T['$inferSelect']>(
+		params: ExportParams<T>,
+		options: ExportOptions<T, TField>,
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	): AsyncGenerator<string> {
+		const {
+			format,
+			headers = {},
+			formatters = {},
+			escapeFormulas = true,
+		} = options;
+		const tableColumns = getTableColumns(table);
+		const fields = (options.columns ?? Object.keys(tableColumns)) as string[];
+
+		for (const field of fields) {
+			if (!(field in tableColumns)) {
+				throw new Error(`Unknown column "${field}"`);
+			}
+		}
+
+		if (!['csv', 'ndjson', 'json'].includes(format)) {
+			throw new Error(`Unknown export format "${format}"`);
+		}
+
+		const columns = Object.fromEntries(
+			fields.map((field) => [field, true]),
+		) as ColumnsSelection<T>;
+
+		const serialize = (row: Record<string, unknown>) =>
+			fields.map((field) => {
+				const formatter = (formatters as Record<string, Formatter>)[field];
+
+				return formatter ? formatter(row[field], row) : row[field];
+			});
+
+		if (format === 'csv') {
+			yield toCsvLine(
+				fields.map(
+					(field) => (headers as Record<string, string>)[field] ?? field,
+				),
+				escapeFormulas,
+			);
+		}
+
+		if (format === 'json') {
+			yield '[';
+		}
+
+		let first = true;
+
+		for await (const batch of iterateBatches({ ...params, columns }, context)) {
+			const rows = batch.map(serialize);
+
+			if (format === 'csv') {
+				yield rows.map((values) => toCsvLine(values, escapeFormulas)).join('');
+			} else if (format === 'ndjson') {
+				yield rows.map((values) => `${toJson(fields, values)}\n`).join('');
+			} else {
+				yield `${first ? '' : ','}${rows.map((values) => toJson(fields, values)).join(',')}`;
+			}
+
+			first = false;
+		}
+
+		if (format === 'json') {
+			yield ']';
+		}
+	};
+}
+
+type Formatter = (value: unknown, row: Record<string, unknown>) => unknown;
+
+function toExportValue(value: unknown) {
+	if (value instanceof Date) return value.toISOString();
+	if (typeof value === 'bigint') return value.toString();
+
+	return value;
+}
+
+function toJson(fields: string[], values: unknown[]) {
+	return JSON.stringify(
+		Object.fromEntries(
+			fields.map((field, index) => [
+				field,
+				toExportValue(values[index]) ?? null,
+			]),
+		),
+	);
+}
+
+/**
+ * RFC 4180: a cell holding a comma, a quote or a line break is quoted, with
+ * its quotes doubled. Lines end with CRLF.
+ */
+function toCsvLine(values: unknown[], escapeFormulas: boolean) {
+	return `${values.map((value) => toCsvCell(value, escapeFormulas)).join(',')}\r\n`;
+}
+
+function toCsvCell(value: unknown, escapeFormulas: boolean) {
+	if (value === null || value === undefined) return '';
+
+	const exported = toExportValue(value);
+	let text =
+		typeof exported === 'object' ? JSON.stringify(exported) : String(exported);
+
+	// Only text, a negative number is not a formula. Checked on the value
+	// itself, as a bigint or a date is exported as text.
+	if (
+		escapeFormulas &&
+		typeof value === 'string' &&
+		/^[=+\-@\t\r]/.test(text)
+	) {
+		text = `'${text}`;
+	}
+
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,106 @@
+import type { StandardSchemaV1 } from '../standard-schema.ts';
+import type {
+	Actor,
+	AggregateMetric,
+	AggregateParams,
+	CrudOptions,
+	DrizzleDatabase,
+	DrizzleTableWithId,
+	FacetsParams,
+	FacetsResult,
+	FacetValue,
+	ListParams,
+	OperationContext,
+	ScopeFilters,
+} from '../types.ts';
+import { createValidate } from './utils.ts';
+
+export type FacetsContext<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor,
+	TScopeFilters extends ScopeFilters<T, TActor>,
+> = {
+	options: CrudOptions<TDatabase, T, TActor, TScopeFilters>;
+	schemas: {
+		listSchema?: StandardSchemaV1<ListParams<T>>;
+	};
+	allowedFilters: (keyof T['$inferSelect'])[];
+	aggregate: (
+		params: AggregateParams<
+			T,
+			keyof T['$inferSelect'],
+			Record<string, AggregateMetric<T>>
+		>,
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	) => Promise<Record<string, any>[]>;
+};
+
+export function createFacetsMethod<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor = Actor,
+	TScopeFilters extends ScopeFilters<T, TActor> = ScopeFilters<T, TActor>,
+>(ctx: FacetsContext<TDatabase, T, TActor, TScopeFilters>) {
+	const { options, schemas, allowedFilters, aggregate } = ctx;
+
+	const validate = createValidate(options.hooks);
+
+	return async function facets<TField extends keyof T['$inferSelect']>(
+		params: FacetsParams<T, TField>,
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	): Promise<FacetsResult<T['$inferSelect'], TField>> {
+		for (const field of params.fields) {
+			if (!allowedFilters.includes(field)) {
+				throw new Error(`Field "${String(field)}" is not an allowed filter`);
+			}
+		}
+
+		const { search, filters, includeDeleted } = await validate(
+			'facets',
+			{
+				search: params.search,
+				filters: params.filters,
+				includeDeleted: params.includeDeleted,
+			},
+			schemas.listSchema,
+			context,
+		);
+
+		const entries = await Promise.all(
+			params.fields.map(async (field) => {
+				// A facet ignores its own filter, so every value stays selectable
+				const { [field]: _own, ...otherFilters } = filters ?? {};
+
+				const rows = await aggregate(
+					{
+						groupBy: [field],
+						metrics: { count: { fn: 'count' } },
+						search,
+						filters: otherFilters,
+						includeDeleted,
+						orderBy: [
+							{ field: 'count', direction: 'desc' },
+							{ field, direction: 'asc' },
+						],
+						limit: params.limit,
+					},
+					// Already validated as a facets call
+					{ ...context, skipValidation: true },
+				);
+
+				const values: FacetValue<unknown>[] = rows.map((row) => ({
+					value: row[field as string],
+					count: row.count,
+				}));
+
+				return [field, values] as const;
+			}),
+		);
+
+		return Object.fromEntries(entries) as FacetsResult<
+			T['$inferSelect'],
+			TField
+		>;
+	};
+}
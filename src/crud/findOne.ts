@@ -1,21 +1,23 @@
 import type { KnownKeysOnly } from 'drizzle-orm';
 import { and, eq, type SQL } from 'drizzle-orm';
-import type {
-	BuildQueryResult,
-	DBQueryConfig,
-	ExtractTablesWithRelations,
-} from 'drizzle-orm/relations';
+import type { BuildQueryResult, DBQueryConfig } from 'drizzle-orm/relations';
+import { getRelationalConfig, loadRelational } from '../relations.ts';
 import type {
 	Actor,
+	ColumnsParams,
 	CrudOptions,
+	CrudRegistry,
 	DrizzleColumn,
 	DrizzleDatabase,
 	DrizzleTableWithId,
 	FindByIdParams,
 	OperationContext,
+	RelationalSchema,
+	RelationalTable,
 	ScopeFilters,
+	SelectedColumns,
 } from '../types.ts';
-import { getDb } from './utils.ts';
+import { getDb, getSelectedFields } from './utils.ts';
 
 export type FindOneContext<
 	TDatabase extends DrizzleDatabase,
@@ -27,6 +29,7 @@ export type FindOneContext<
 	table: T;
 	tableName: keyof TDatabase['_']['fullSchema'];
 	options: CrudOptions<TDatabase, T, TActor, TScopeFilters>;
+	registry: CrudRegistry;
 	getColumn: (key: keyof T['$inferInsert']) => DrizzleColumn<any, any, any>;
 	applyScopeFilters: (
 		conditions: SQL[],
@@ -44,44 +47,47 @@ export function createFindOneMethod<
 	const {
 		db,
 		table,
-		tableName,
+		registry,
 		getColumn,
 		applyScopeFilters,
 		applySoftDeleteFilter,
 	} = ctx;
 
-	type TSchema = ExtractTablesWithRelations<TDatabase['_']['fullSchema']>;
-	type TFields = TSchema[typeof tableName];
+	type TSchema = RelationalSchema<TDatabase>;
+	type TFields = RelationalTable<TDatabase, T>;
+	type FindOneParams = FindByIdParams & ColumnsParams<T>;
 	type QueryOneGeneric = DBQueryConfig<'one', true, TSchema, TFields>;
-	type FindOneInput<TSelections extends QueryOneGeneric> = KnownKeysOnly<
+	type FindOneGeneric = Omit<QueryOneGeneric, 'where' | 'orderBy' | 'offset'> &
+		FindByIdParams;
+	type FindOneInput<TSelections extends FindOneGeneric> = KnownKeysOnly<
 		TSelections,
-		QueryOneGeneric
+		FindOneGeneric
 	>;
-	type FindOneResult<TSelections extends QueryOneGeneric> = BuildQueryResult<
+	type FindOneResult<TSelections extends FindOneGeneric> = BuildQueryResult<
 		TSchema,
 		TFields,
 		TSelections
 	>;
 
-	function findOne(
+	function findOne<TParams extends FindOneParams>(
 		where: Partial<T['$inferSelect']>,
-		params?: FindByIdParams,
+		params?: KnownKeysOnly<TParams, FindOneParams>,
 		context?: Omit<
 			OperationContext<TDatabase, T, TActor, TScopeFilters>,
 			'skipValidation'
 		>,
-	): Promise<T['$inferSelect'] | null>;
-	function findOne<TSelections extends QueryOneGeneric>(
+	): Promise<SelectedColumns<T['$inferSelect'], TParams['columns']> | null>;
+	function findOne<TSelections extends FindOneGeneric>(
 		where: Partial<T['$inferSelect']>,
-		params?: FindOneInput<TSelections> & FindByIdParams,
+		params?: FindOneInput<TSelections>,
 		context?: Omit<
 			OperationContext<TDatabase, T, TActor, TScopeFilters>,
 			'skipValidation'
 		>,
 	): Promise<FindOneResult<TSelections> | null>;
-	async function findOne<TSelections extends QueryOneGeneric = QueryOneGeneric>(
+	async function findOne<TSelections extends FindOneGeneric = FindOneGeneric>(
 		where: Partial<T['$inferSelect']>,
-		params?: (FindOneInput<TSelections> & FindByIdParams) | FindByIdParams,
+		params?: FindOneInput<TSelections> | FindOneParams,
 		context?: Omit<
 			OperationContext<TDatabase, T, TActor, TScopeFilters>,
 			'skipValidation'
@@ -108,10 +114,28 @@ export function createFindOneMethod<
 		const whereClause =
 			conditions.length > 1 ? and(...conditions) : conditions[0];
 
+		const relational = getRelationalConfig(params);
+
 		// Use the standard query API for better compatibility
-		const query = dbInstance.select().from(table).where(whereClause).limit(1);
+		const query = dbInstance
+			.select(
+				relational
+					? { id: table.id }
+					: getSelectedFields(table, (params as FindOneParams)?.columns),
+			)
+			.from(table)
+			.where(whereClause)
+			.limit(1);
 
-		const result = await query;
+		const result = relational
+			? await loadRelational(
+					dbInstance,
+					table,
+					(await query).map((row) => row.id),
+					relational,
+					registry,
+				)
+			: await query;
 
 		return result.length > 0 ? (result[0] as FindOneResult<TSelections>) : null;
 	}
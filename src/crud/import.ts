@@ -0,0 +1,434 @@
+import { getTableColumns, sql } from 'drizzle-orm';
+import type { SQLiteUpdateSetSource } from 'drizzle-orm/sqlite-core';
+
+import type { StandardSchemaV1 } from '../standard-schema.ts';
+import { ValidationError } from '../standard-schema.ts';
+import type {
+	Actor,
+	CrudOptions,
+	DrizzleColumn,
+	DrizzleDatabase,
+	DrizzleTableWithId,
+	ImportOptions,
+	ImportReport,
+	ImportRowResult,
+	ImportSource,
+	OperationContext,
+	ScopeFilters,
+} from '../types.ts';
+import { createValidate, getDb } from './utils.ts';
+
+export type ImportContext<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor,
+	TScopeFilters extends ScopeFilters<T, TActor>,
+> = {
+	db: TDatabase;
+	table: T;
+	options: CrudOptions<TDatabase, T, TActor, TScopeFilters>;
+	schemas: {
+		insertSchema?: StandardSchemaV1<T['$inferInsert']>;
+	};
+};
+
+type ImportRecord = {
+	row: number;
+	data?: Record<string, unknown>;
+	issues?: StandardSchemaV1.Issue[];
+};
+
+export function createImportMethod<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor = Actor,
+	TScopeFilters extends ScopeFilters<T, TActor> = ScopeFilters<T, TActor>,
+>(ctx: ImportContext<TDatabase, T, TActor, TScopeFilters>) {
+	const { db, table, options, schemas } = ctx;
+	const { hooks = {} } = options;
+	const validate = createValidate(hooks);
+	const tableColumns = getTableColumns(table);
+
+	/**
+	 * Parses CSV or NDJSON and creates a row per record, through the same
+	 * insertSchema and beforeCreate hook as create(). A bad record is reported
+	 * and skipped, it never aborts the import.
+	 */
+	return async function importRows(
+		source: ImportSource,
+		importOptions: ImportOptions<T>,
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	): Promise<ImportReport<T['$inferSelect']['id']>> {
+		const dbInstance = getDb(db, context);
+		const {
+			format,
+			mode = 'insert',
+			conflictTarget = 'id',
+			batchSize = 100,
+		} = importOptions;
+
+		if (!Number.isInteger(batchSize) || batchSize < 1) {
+			throw new Error('batchSize must be a positive integer');
+		}
+
+		const target = tableColumns[conflictTarget as string];
+
+		if (mode === 'upsert' && !target) {
+			throw new Error(`Unknown column "${String(conflictTarget)}"`);
+		}
+
+		let records: AsyncGenerator<ImportRecord>;
+
+		if (format === 'csv') {
+			records = readCsv(source, tableColumns);
+		} else if (format === 'ndjson') {
+			records = readNdjson(source, tableColumns);
+		} else {
+			throw new Error(`Unknown import format "${format}"`);
+		}
+
+		const results: ImportRowResult<T['$inferSelect']['id']>[] = [];
+		let batch: { row: number; data: T['$inferInsert'] }[] = [];
+
+		const write = (rows: T['$inferInsert'][]) => {
+			const query = dbInstance.insert(table).values(rows);
+
+			if (mode === 'insert') {
+				return query.returning({ id: table.id });
+			}
+
+			// The rows of a batch share their columns (see keysOf), and only
+			// those are updated, except the target
+			const set = Object.fromEntries(
+				Object.keys(rows[0])
+					.filter((key) => key !== conflictTarget && key in tableColumns)
+					.map((key) => [
+						key,
+						sql`excluded.${sql.identifier(tableColumns[key].name)}`,
+					]),
+			) as SQLiteUpdateSetSource<T>;
+
+			return (
+				Object.keys(set).length > 0
+					? query.onConflictDoUpdate({ target, set })
+					: query.onConflictDoNothing({ target })
+			).returning({ id: table.id });
+		};
+
+		const flush = async () => {
+			if (batch.length === 0) return;
+
+			const rows = batch;
+			batch = [];
+
+			try {
+				const inserted = await write(rows.map(({ data }) => data));
+
+				rows.forEach(({ row }, index) => {
+					results.push({ row, success: true, id: inserted[index]?.id });
+				});
+			} catch {
+				// The statement failed as a whole, so retry row by row to find
+				// the rows the database rejects
+				for (const { row, data } of rows) {
+					try {
+						const [inserted] = await write([data]);
+						results.push({ row, success: true, id: inserted?.id });
+					} catch (error) {
+						results.push({ row, success: false, issues: toIssues(error) });
+					}
+				}
+			}
+		};
+
+		for await (const record of records) {
+			if (record.issues) {
+				results.push({
+					row: record.row,
+					success: false,
+					issues: record.issues,
+				});
+				continue;
+			}
+
+			try {
+				const validated = await validate(
+					'import',
+					record.data as T['$inferInsert'],
+					schemas.insertSchema,
+					context,
+				);
+				const hookResult = hooks.beforeCreate
+					? await hooks.beforeCreate(validated)
+					: validated;
+
+				const data = hookResult ?? validated;
+
+				// A row without a column must not overwrite it with the default,
+				// so an upsert batch only holds rows that write the same columns
+				if (
+					mode === 'upsert' &&
+					batch.length > 0 &&
+					keysOf(batch[0].data) !== keysOf(data)
+				) {
+					await flush();
+				}
+
+				batch.push({ row: record.row, data });
+			} catch (error) {
+				results.push({
+					row: record.row,
+					success: false,
+					issues: toIssues(error),
+				});
+				continue;
+			}
+
+			if (batch.length >= batchSize) {
+				await flush();
+			}
+		}
+
+		await flush();
+
+		results.sort((a, b) => a.row - b.row);
+
+		const succeeded = results.filter((result) => result.success).length;
+
+		return {
+			total: results.length,
+			succeeded,
+			failed: results.length - succeeded,
+			rows: results,
+		};
+	};
+}
+
+function keysOf(data: object) {
+	return Object.keys(data).sort().join();
+}
+
+function toIssues(error: unknown): StandardSchemaV1.Issue[] {
+	if (error instanceof ValidationError) return [...error.issues];
+
+	// Drizzle wraps driver errors with the query, keep the driver message
+	const cause =
+		error instanceof Error && error.cause instanceof Error
+			? error.cause
+			: error;
+
+	return [{ message: cause instanceof Error ? cause.message : String(cause) }];
+}
+
+async function* readText(source: ImportSource): AsyncGenerator<string> {
+	if (typeof source === 'string') {
+		yield source;
+		return;
+	}
+
+	const decoder = new TextDecoder();
+
+	for await (const chunk of source) {
+		yield typeof chunk === 'string'
+			? chunk
+			: decoder.decode(chunk, { stream: true });
+	}
+
+	const rest = decoder.decode();
+	if (rest) yield rest;
+}
+
+async function* readLines(source: ImportSource): AsyncGenerator<string> {
+	let buffer = '';
+
+	for await (const text of readText(source)) {
+		buffer += text;
+		const lines = buffer.split('\n');
+		buffer = lines.pop()!;
+
+		for (const line of lines) {
+			yield line.replace(/\r$/, '');
+		}
+	}
+
+	if (buffer) yield buffer.replace(/\r$/, '');
+}
+
+async function* readNdjson(
+	source: ImportSource,
+	tableColumns: Record<string, DrizzleColumn<any, any, any>>,
+): AsyncGenerator<ImportRecord> {
+	let row = 0;
+
+	for await (const line of readLines(source)) {
+		if (!line.trim()) continue;
+
+		row++;
+		let value: unknown;
+
+		try {
+			value = JSON.parse(line);
+		} catch {
+			yield { row, issues: [{ message: 'Invalid JSON' }] };
+			continue;
+		}
+
+		if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+			yield { row, issues: [{ message: 'Each line must be a JSON object' }] };
+			continue;
+		}
+
+		yield {
+			row,
+			data: Object.fromEntries(
+				Object.entries(value).map(([key, cell]) => [
+					key,
+					tableColumns[key] ? coerce(tableColumns[key], cell) : cell,
+				]),
+			),
+		};
+	}
+}
+
+async function* readCsv(
+	source: ImportSource,
+	tableColumns: Record<string, DrizzleColumn<any, any, any>>,
+): AsyncGenerator<ImportRecord> {
+	let header: string[] | undefined;
+	let row = 0;
+
+	for await (const cells of parseCsv(readText(source))) {
+		if (!header) {
+			for (const field of cells) {
+				if (!tableColumns[field]) {
+					throw new Error(`Unknown column "${field}"`);
+				}
+			}
+
+			header = cells;
+			continue;
+		}
+
+		row++;
+
+		if (cells.length !== header.length) {
+			yield {
+				row,
+				issues: [
+					{
+						message: `Expected ${header.length} columns, got ${cells.length}`,
+					},
+				],
+			};
+			continue;
+		}
+
+		const data: Record<string, unknown> = {};
+
+		header.forEach((field, index) => {
+			const column = tableColumns[field];
+
+			// An empty cell is NULL, or the column default when it is not nullable
+			if (cells[index] === '') {
+				if (!column.notNull) data[field] = null;
+				return;
+			}
+
+			data[field] = coerce(column, cells[index]);
+		});
+
+		yield { row, data };
+	}
+}
+
+/**
+ * RFC 4180 parser: quoted cells may hold commas, line breaks and doubled
+ * quotes. Blank lines are skipped.
+ */
+async function* parseCsv(
+	chunks: AsyncIterable<string>,
+): AsyncGenerator<string[]> {
+	let cells: string[] = [];
+	let cell = '';
+	let quoted = false;
+	let closedQuote = false;
+	let started = false;
+
+	for await (const chunk of chunks) {
+		for (const char of chunk) {
+			if (quoted) {
+				if (char === '"') {
+					quoted = false;
+					closedQuote = true;
+				} else {
+					cell += char;
+				}
+				continue;
+			}
+
+			const afterQuote = closedQuote;
+			closedQuote = false;
+
+			if (char === '"') {
+				// A quote right after a closing one is an escaped quote
+				if (afterQuote) cell += '"';
+				quoted = true;
+				started = true;
+			} else if (char === ',') {
+				cells.push(cell);
+				cell = '';
+				started = true;
+			} else if (char === '\n') {
+				if (started || cell) {
+					cells.push(cell);
+					yield cells;
+				}
+
+				cells = [];
+				cell = '';
+				started = false;
+			} else if (char !== '\r') {
+				cell += char;
+			}
+		}
+	}
+
+	if (started || cell) {
+		cells.push(cell);
+		yield cells;
+	}
+}
+
+/**
+ * Turns a text value into the type of its column, e.g. a CSV cell or an ISO
+ * date from an export. Values that do not convert are kept, so the insert
+ * schema reports them.
+ */
+function coerce(column: DrizzleColumn<any, any, any>, value: unknown) {
+	if (typeof value !== 'string') return value;
+
+	switch (column.dataType) {
+		case 'number':
+			return value.trim() === '' ? value : Number(value);
+		case 'bigint':
+			try {
+				return BigInt(value);
+			} catch {
+				return value;
+			}
+		case 'boolean':
+			if (value === 'true' || value === '1') return true;
+			if (value === 'false' || value === '0') return false;
+			return value;
+		case 'date':
+			return new Date(value);
+		case 'json':
+			try {
+				return JSON.parse(value);
+			} catch {
+				return value;
+			}
+		default:
+			return value;
+	}
+}
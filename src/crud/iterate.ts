@@ -0,0 +1,39 @@
+import type {
+	Actor,
+	DrizzleDatabase,
+	DrizzleTableWithId,
+	IterateParams,
+	OperationContext,
+	ScopeFilters,
+	SelectedColumns,
+} from '../types.ts';
+
+export type IterateContext<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor,
+	TScopeFilters extends ScopeFilters<T, TActor>,
+> = {
+	iterateBatches: <TParams extends IterateParams<T>>(
+		params?: TParams,
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	) => AsyncGenerator<SelectedColumns<T['$inferSelect'], TParams['columns']>[]>;
+};
+
+export function createIterateMethod<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor = Actor,
+	TScopeFilters extends ScopeFilters<T, TActor> = ScopeFilters<T, TActor>,
+>(ctx: IterateContext<TDatabase, T, TActor, TScopeFilters>) {
+	const { iterateBatches } = ctx;
+
+	return async function* iterate<TParams extends IterateParams<T>>(
+		params: TParams = {} as TParams,
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	): AsyncGenerator<SelectedColumns<T['$inferSelect'], TParams['columns']>> {
+		for await (const batch of iterateBatches(params, context)) {
+			yield* batch;
+		}
+	};
+}
@@ -0,0 +1,132 @@
+import { and, asc, gt, type SQL } from 'drizzle-orm';
+
+import { parseFilters } from '../filters.ts';
+import type { StandardSchemaV1 } from '../standard-schema.ts';
+import type {
+	Actor,
+	CrudOptions,
+	DrizzleDatabase,
+	DrizzleTableWithId,
+	FilterContext,
+	IterateParams,
+	ListParams,
+	OperationContext,
+	ScopeFilters,
+	SelectedColumns,
+} from '../types.ts';
+import { createValidate, getDb, getSelectedFields } from './utils.ts';
+
+export type IterateBatchesContext<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor,
+	TScopeFilters extends ScopeFilters<T, TActor>,
+> = {
+	db: TDatabase;
+	table: T;
+	options: CrudOptions<TDatabase, T, TActor, TScopeFilters>;
+	schemas: {
+		listSchema?: StandardSchemaV1<ListParams<T>>;
+	};
+	maxPageSize: number;
+	allowedFilters: (keyof T['$inferSelect'])[];
+	filterContext: FilterContext;
+	applySearch: (conditions: SQL[], search?: string) => void;
+	applyScopeFilters: (
+		conditions: SQL[],
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	) => SQL[];
+	applySoftDeleteFilter: (conditions: SQL[], includeDeleted?: boolean) => SQL[];
+};
+
+export function createIterateBatchesMethod<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor = Actor,
+	TScopeFilters extends ScopeFilters<T, TActor> = ScopeFilters<T, TActor>,
+>(ctx: IterateBatchesContext<TDatabase, T, TActor, TScopeFilters>) {
+	const {
+		db,
+		table,
+		options,
+		schemas,
+		maxPageSize,
+		allowedFilters,
+		filterContext,
+		applySearch,
+		applyScopeFilters,
+		applySoftDeleteFilter,
+	} = ctx;
+
+	const validate = createValidate(options.hooks);
+
+	/**
+	 * Walks every matching row in batches, seeking by id instead of using an
+	 * offset, so rows inserted or deleted during the run never shift a batch.
+	 */
+	return async function* iterateBatches<TParams extends IterateParams<T>>(
+		params: TParams = {} as TParams,
+		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
+	): AsyncGenerator<SelectedColumns<T['$inferSelect'], TParams['columns']>[]> {
+		const dbInstance = getDb(db, context);
+		const { batchSize = maxPageSize, columns } = params;
+
+		if (!Number.isInteger(batchSize) || batchSize < 1) {
+			throw new Error('batchSize must be a positive integer');
+		}
+
+		const { search, filters, includeDeleted } = await validate(
+			'iterate',
+			{
+				search: params.search,
+				filters: params.filters,
+				includeDeleted: params.includeDeleted,
+			},
+			schemas.listSchema,
+			context,
+		);
+
+		const conditions: SQL[] = parseFilters(
+			table,
+			filters,
+			allowedFilters,
+			options.allowedJsonPaths,
+			filterContext,
+		);
+
+		applySearch(conditions, search);
+		applyScopeFilters(conditions, context);
+		applySoftDeleteFilter(conditions, includeDeleted);
+
+		// id is the keyset, so it is always selected and dropped when not requested
+		const selected = getSelectedFields(table, columns);
+		const stripId = !('id' in selected);
+		const fields = { ...selected, id: table.id };
+
+		let lastId: unknown;
+
+		while (true) {
+			const where = and(
+				...conditions,
+				lastId === undefined ? undefined : gt(table.id, lastId),
+			);
+
+			const rows: Record<string, unknown>[] = await dbInstance
+				.select(fields)
+				.from(table)
+				.where(where)
+				.orderBy(asc(table.id))
+				.limit(batchSize);
+
+			if (rows.length === 0) return;
+
+			lastId = rows[rows.length - 1].id;
+
+			yield (
+				stripId ? rows.map(({ id: _id, ...row }) => row) : rows
+			) as SelectedColumns<T['$inferSelect'], TParams['columns']>[];
+
+			if (rows.length < batchSize) return;
+		}
+	};
+}
@@ -1,23 +1,52 @@
 import type { KnownKeysOnly } from 'drizzle-orm';
-import { and, asc, count, desc, type SQL } from 'drizzle-orm';
-import type {
-	BuildQueryResult,
-	DBQueryConfig,
-	ExtractTablesWithRelations,
-} from 'drizzle-orm/relations';
-import { parseFilters } from '../filters.ts';
+import { and, count, type SQL } from 'drizzle-orm';
+import type { BuildQueryResult, DBQueryConfig } from 'drizzle-orm/relations';
+import {
+	buildKeysetCondition,
+	decodeCursor,
+	encodeCursor,
+	type KeysetEntry,
+	reverseKeyset,
+} from '../cursor.ts';
+import { isJsonPath, jsonPathToSql, parseFilters } from '../filters.ts';
+import {
+	getRelationalConfig,
+	loadRelational,
+	type RelationalConfig,
+	relatedFieldValue,
+} from '../relations.ts';
 import type { StandardSchemaV1 } from '../standard-schema.ts';
 import type {
 	Actor,
+	ColumnsSelection,
+	CountStrategy,
 	CrudOptions,
+	CrudRegistry,
+	CursorPaginatedResponse,
 	DrizzleColumn,
 	DrizzleDatabase,
 	DrizzleTableWithId,
+	FilterContext,
+	ListOrderBy,
 	ListParams,
+	ListResponse,
 	OperationContext,
+	PaginatedResponse,
+	RelationalSchema,
+	RelationalTable,
 	ScopeFilters,
+	SearchField,
+	SearchMode,
+	SelectedColumns,
 } from '../types.ts';
-import { createValidate, getDb } from './utils.ts';
+import {
+	createValidate,
+	getDb,
+	getSelectedFields,
+	toOrderBy,
+} from './utils.ts';
+
+const COUNT_CACHE_SIZE = 100;
 
 export type ListContext<
 	TDatabase extends DrizzleDatabase,
@@ -29,15 +58,18 @@ export type ListContext<
 	table: T;
 	tableName: keyof TDatabase['_']['fullSchema'];
 	options: CrudOptions<TDatabase, T, TActor, TScopeFilters>;
+	registry: CrudRegistry;
 	schemas: {
 		listSchema?: StandardSchemaV1<ListParams<T>>;
 	};
 	defaultPageSize: number;
 	maxPageSize: number;
-	searchFields: (keyof T['$inferSelect'])[];
+	searchFields: SearchField<TDatabase, T>[];
 	allowedFilters: (keyof T['$inferSelect'])[];
+	filterContext: FilterContext;
 	getColumn: (key: keyof T['$inferInsert']) => DrizzleColumn<any, any, any>;
-	applySearch: (conditions: SQL[], search?: string) => void;
+	applySearch: (conditions: SQL[], search?: string, mode?: SearchMode) => void;
+	getRelevance: (search?: string, mode?: SearchMode) => SQL | undefined;
 	applyScopeFilters: (
 		conditions: SQL[],
 		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
@@ -54,75 +86,75 @@ export function createListMethod<
 	const {
 		db,
 		table,
-		tableName,
 		options,
+		registry,
 		schemas,
 		defaultPageSize,
 		maxPageSize,
 		allowedFilters,
+		filterContext,
 		getColumn,
 		applySearch,
+		getRelevance,
 		applyScopeFilters,
 		applySoftDeleteFilter,
 	} = ctx;
 
 	const validate = createValidate(options.hooks);
+	const {
+		countCacheTtl = 60_000,
+		defaultOrderBy,
+		allowedJsonPaths = [],
+	} = options;
 
-	type TSchema = ExtractTablesWithRelations<TDatabase['_']['fullSchema']>;
-	type TFields = TSchema[typeof tableName];
+	const isRelationPath = (field: PropertyKey) =>
+		typeof field === 'string' && field.includes('.');
+	const countCache = new Map<string, { count: number; expiresAt: number }>();
+
+	type TSchema = RelationalSchema<TDatabase>;
+	type TFields = RelationalTable<TDatabase, T>;
 	type QueryManyGeneric = DBQueryConfig<'many', true, TSchema, TFields>;
-	type ListGeneric = Omit<QueryManyGeneric, 'offset' | 'where'> &
-		ListParams<T> & {
+	type ListGeneric = Omit<
+		QueryManyGeneric,
+		'offset' | 'where' | 'orderBy' | 'limit'
+	> &
+		ListParams<T, TDatabase> & {
 			where?: SQL;
 		};
 	type ListInput<TSelections extends ListGeneric> = KnownKeysOnly<
 		TSelections,
 		ListGeneric
 	>;
-	type ListResult<TSelections extends QueryManyGeneric> = BuildQueryResult<
+	type ListResult<TSelections extends ListGeneric> = BuildQueryResult<
 		TSchema,
 		TFields,
 		TSelections
-	>[];
+	>;
 
-	function list(
-		params: ListParams<T>,
+	function list<TParams extends ListParams<T, TDatabase>>(
+		params: KnownKeysOnly<TParams, ListParams<T, TDatabase>>,
 		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
-	): Promise<{
-		hasNextPage: boolean;
-		hasPreviousPage: boolean;
-		page: number;
-		perPage: number;
-		results: T['$inferSelect'][];
-		totalItems: number;
-		totalPages: number;
-	}>;
+	): Promise<
+		ListResponse<
+			TParams,
+			SelectedColumns<T['$inferSelect'], TParams['columns']>
+		>
+	>;
 	function list<TSelections extends ListGeneric>(
 		params: ListInput<TSelections>,
 		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
-	): Promise<{
-		hasNextPage: boolean;
-		hasPreviousPage: boolean;
-		page: number;
-		perPage: number;
-		results: ListResult<TSelections>;
-		totalItems: number;
-		totalPages: number;
-	}>;
+	): Promise<ListResponse<TSelections, ListResult<TSelections>>>;
 	async function list<TSelections extends ListGeneric = ListGeneric>(
 		params: ListInput<TSelections> | ListParams<T>,
 		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
-	): Promise<{
-		hasNextPage: boolean;
-		hasPreviousPage: boolean;
-		page: number;
-		perPage: number;
-		results: ListResult<TSelections> | T['$inferSelect'][];
-		totalItems: number;
-		totalPages: number;
-	}> {
+	): Promise<
+		| PaginatedResponse<
+				ListResult<TSelections> | T['$inferSelect'],
+				CountStrategy
+		  >
+		| CursorPaginatedResponse<T['$inferSelect']>
+	> {
 		const dbInstance = getDb(db, context);
-		// const builder = (dbInstance as any).query[tableName];
 
 		const validatedParams = await validate(
 			'list',
@@ -142,41 +174,131 @@ export function createListMethod<
 			table,
 			validatedParams.filters,
 			allowedFilters,
+			allowedJsonPaths,
+			filterContext,
 		);
 		conditions.push(...parsedFilters);
 
-		applySearch(conditions, validatedParams.search);
+		applySearch(conditions, validatedParams.search, validatedParams.searchMode);
 		applyScopeFilters(conditions, context);
 		applySoftDeleteFilter(conditions, validatedParams.includeDeleted);
 
-		const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
-
 		const perPage = Math.min(
 			validatedParams.perPage || defaultPageSize,
 			maxPageSize,
 		);
+
+		const { cursor, after, before } = validatedParams;
+		const relational = getRelationalConfig(params);
+		const { columns } = params as ListParams<T>;
+		const orderByEntries = withTieBreaker(
+			validatedParams.orderBy?.length
+				? validatedParams.orderBy
+				: (defaultOrderBy ?? []),
+		);
+
+		if (cursor || after || before) {
+			return listByCursor(
+				dbInstance,
+				conditions,
+				validatedParams,
+				orderByEntries,
+				perPage,
+				columns,
+				relational,
+			);
+		}
+
+		const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
 		const page = validatedParams.page || 1;
 		const offset = (page - 1) * perPage;
 
-		const orderBy = validatedParams.orderBy?.map(({ field, direction }) => {
-			const column = getColumn(field as keyof T['$inferInsert']);
-			return direction === 'desc' ? desc(column) : asc(column);
+		const relevance = getRelevance(
+			validatedParams.search,
+			validatedParams.searchMode,
+		);
+
+		const orderBy = orderByEntries.flatMap(({ field, direction, nulls }) => {
+			const expression =
+				field === '$relevance'
+					? relevance
+					: isJsonPath(table, field as string)
+						? jsonPathToSql(table, field as string, allowedJsonPaths)
+						: isRelationPath(field)
+							? relatedFieldValue(db, table, field as string, registry)
+							: getColumn(field as keyof T['$inferInsert']);
+
+			// Without a search there is nothing to rank, so the order is skipped
+			if (!expression) return [];
+
+			return [toOrderBy(expression, direction, nulls)];
 		});
 
+		// Relations are loaded afterwards, so only ids are needed here
+		const fields = relational
+			? { id: table.id }
+			: getSelectedFields(table, columns);
+
 		// Use standard query API for SQLite compatibility
-		const baseQuery = dbInstance.select().from(table);
+		const baseQuery = dbInstance.select(fields).from(table);
 
 		const queryWithWhere = whereClause
 			? baseQuery.where(whereClause)
 			: baseQuery;
 
-		const queryWithOrder =
-			orderBy && orderBy.length > 0
-				? queryWithWhere.orderBy(...orderBy)
-				: queryWithWhere;
+		const queryWithOrder = queryWithWhere.orderBy(...orderBy);
 
-		const data = await queryWithOrder.limit(perPage).offset(offset);
+		const countStrategy = validatedParams.count ?? 'exact';
 
+		// Without an exact count, one extra row tells whether a next page exists
+		const rows = await queryWithOrder
+			.limit(countStrategy === 'exact' ? perPage : perPage + 1)
+			.offset(offset);
+		const pageRows = rows.slice(0, perPage);
+
+		const data = relational
+			? await loadRelational(
+					dbInstance,
+					table,
+					pageRows.map((row) => row.id),
+					relational,
+					registry,
+				)
+			: pageRows;
+
+		const hasPreviousPage = page > 1;
+
+		if (countStrategy === 'none') {
+			return {
+				hasNextPage: rows.length > perPage,
+				hasPreviousPage,
+				page,
+				perPage,
+				results: data as T['$inferSelect'][],
+			};
+		}
+
+		const totalItems =
+			countStrategy === 'estimated'
+				? await countRowsCached(dbInstance, conditions)
+				: await countRows(dbInstance, conditions);
+		const totalPages = Math.ceil(totalItems / perPage);
+		const hasNextPage =
+			countStrategy === 'estimated' ? rows.length > perPage : page < totalPages;
+
+		return {
+			hasNextPage,
+			hasPreviousPage,
+			page,
+			perPage,
+			results: data as T['$inferSelect'][],
+			totalItems,
+			totalPages,
+		};
+	}
+
+	function buildCountQuery(dbInstance: DrizzleDatabase, conditions: SQL[]) {
 		let countQuery = (dbInstance as any).select({ count: count() }).from(table);
 
 		const countConditions: SQL[] = [...conditions];
@@ -185,21 +307,161 @@ export function createListMethod<
 			countQuery = countQuery.where(and(...countConditions));
 		}
 
-		const totalResult = await countQuery;
+		return countQuery;
+	}
+
+	async function countRows(dbInstance: DrizzleDatabase, conditions: SQL[]) {
+		const totalResult = await buildCountQuery(dbInstance, conditions);
 
+		return totalResult[0].count as number;
+	}
+
+	/**
+	 * Reuses the count of an identical query (same SQL and params) while it is
+	 * younger than `countCacheTtl`.
+	 */
+	async function countRowsCached(
+		dbInstance: DrizzleDatabase,
+		conditions: SQL[],
+	) {
+		const countQuery = buildCountQuery(dbInstance, conditions);
+		const key = JSON.stringify(countQuery.toSQL());
+		const cached = countCache.get(key);
+
+		if (cached && cached.expiresAt > Date.now()) {
+			return cached.count;
+		}
+
+		const totalResult = await countQuery;
 		const totalItems = totalResult[0].count as number;
-		const totalPages = Math.ceil(totalItems / perPage);
-		const hasNextPage = page < totalPages;
-		const hasPreviousPage = page > 1;
+
+		countCache.delete(key);
+		countCache.set(key, {
+			count: totalItems,
+			expiresAt: Date.now() + countCacheTtl,
+		});
+
+		// Evict the oldest entry once the cache is full
+		if (countCache.size > COUNT_CACHE_SIZE) {
+			countCache.delete(countCache.keys().next().value!);
+		}
+
+		return totalItems;
+	}
+
+	/**
+	 * Appends id to the order (in the direction of the last entry), so rows
+	 * with equal values keep the same order on every page.
+	 */
+	function withTieBreaker(orderBy: ListOrderBy<T>[]): ListOrderBy<T>[] {
+		if (orderBy.some(({ field }) => field === 'id')) return orderBy;
+
+		return [
+			...orderBy,
+			{ field: 'id', direction: orderBy.at(-1)?.direction ?? 'asc' },
+		];
+	}
+
+	/**
+	 * Keyset pagination: seeks past the cursor row instead of using an offset,
+	 * and skips the count query entirely.
+	 */
+	async function listByCursor(
+		dbInstance: DrizzleDatabase,
+		conditions: SQL[],
+		params: ListParams<T>,
+		orderByEntries: ListOrderBy<T>[],
+		perPage: number,
+		columns?: ColumnsSelection<T>,
+		relational?: RelationalConfig,
+	): Promise<CursorPaginatedResponse<T['$inferSelect']>> {
+		const { after, before } = params;
+
+		if (after && before) {
+			throw new Error('Cannot paginate with both after and before cursors');
+		}
+
+		const keyset: KeysetEntry[] = orderByEntries.map(
+			({ field, direction, nulls }) => {
+				// The keyset values are read from the rows, so only columns work
+				if (field === '$relevance' || isRelationPath(field)) {
+					throw new Error(
+						`Cursor pagination cannot be ordered by "${String(field)}"`,
+					);
+				}
+
+				return {
+					field: field as string,
+					column: getColumn(field as keyof T['$inferInsert']),
+					direction,
+					nulls,
+				};
+			},
+		);
+
+		// Walking backwards reads the keyset in reverse and flips the page after
+		const seekKeyset = before ? reverseKeyset(keyset) : keyset;
+		const token = before ?? after;
+
+		const seekConditions = [...conditions];
+
+		if (token) {
+			seekConditions.push(
+				buildKeysetCondition(seekKeyset, decodeCursor(keyset, token)),
+			);
+		}
+
+		const selected = getSelectedFields(table, columns);
+		const keysetFields = Object.fromEntries(
+			keyset.map(({ field, column }) => [field, column]),
+		);
+
+		// The keyset is always selected to build cursors, and dropped afterwards
+		// when not part of the requested columns
+		const fields = relational ? keysetFields : { ...keysetFields, ...selected };
+
+		const rows = await dbInstance
+			.select(fields)
+			.from(table)
+			.where(seekConditions.length > 0 ? and(...seekConditions) : undefined)
+			.orderBy(
+				...seekKeyset.map(({ column, direction, nulls }) =>
+					toOrderBy(column, direction, nulls),
+				),
+			)
+			.limit(perPage + 1);
+
+		const hasMore = rows.length > perPage;
+		const pageRows = rows.slice(0, perPage);
+
+		if (before) {
+			pageRows.reverse();
+		}
+
+		const results = relational
+			? await loadRelational(
+					dbInstance,
+					table,
+					pageRows.map((row) => row.id),
+					relational,
+					registry,
+				)
+			: pageRows.map((row) =>
+					Object.fromEntries(
+						Object.keys(selected).map((key) => [key, row[key]]),
+					),
+				);
+
+		const hasNextPage = before ? pageRows.length > 0 : hasMore;
+		const hasPreviousPage = before ? hasMore : !!after && pageRows.length > 0;
 
 		return {
 			hasNextPage,
 			hasPreviousPage,
-			page,
 			perPage,
-			results: data,
-			totalItems,
-			totalPages,
+			results: results as T['$inferSelect'][],
+			nextCursor: hasNextPage ? encodeCursor(keyset, pageRows.at(-1)!) : null,
+			prevCursor: hasPreviousPage ? encodeCursor(keyset, pageRows[0]) : null,
 		};
 	}
 
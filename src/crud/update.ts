@@ -2,13 +2,16 @@ import { and, eq, type SQL } from 'drizzle-orm';
 import type { StandardSchemaV1 } from '../standard-schema.ts';
 import type {
 	Actor,
+	ColumnsSelection,
 	CrudOptions,
 	DrizzleDatabase,
 	DrizzleTableWithId,
+	MutationContext,
 	OperationContext,
 	ScopeFilters,
+	SelectedColumns,
 } from '../types.ts';
-import { createValidate, getDb } from './utils.ts';
+import { createValidate, getDb, getSelectedFields } from './utils.ts';
 
 export type UpdateContext<
 	TDatabase extends DrizzleDatabase,
@@ -46,11 +49,11 @@ export function createUpdateMethod<
 	const { hooks = {} } = options;
 	const validate = createValidate(hooks);
 
-	return async (
+	return async <TColumns extends ColumnsSelection<T> | undefined = undefined>(
 		id: T['$inferSelect']['id'],
 		updates: Partial<T['$inferInsert']>,
-		context?: OperationContext<TDatabase, T, TActor, TScopeFilters>,
-	): Promise<T['$inferSelect']> => {
+		context?: MutationContext<TDatabase, T, TActor, TScopeFilters, TColumns>,
+	): Promise<SelectedColumns<T['$inferSelect'], TColumns>> => {
 		const validatedData = await validate(
 			'update',
 			updates,
@@ -63,15 +66,16 @@ export function createUpdateMethod<
 			? await hooks.beforeUpdate(validatedData)
 			: validatedData;
 		const transformed = hookResult ?? validatedData;
+		const fields = getSelectedFields(table, context?.columns);
 
 		// If no fields to update, just return the existing record
 		if (Object.keys(transformed).length === 0) {
-			const [existing] = await db
-				.select()
+			const [existing]: Record<string, unknown>[] = await db
+				.select(fields)
 				.from(table)
 				.where(eq(table.id, id))
 				.limit(1);
-			return existing as T['$inferSelect'];
+			return existing as SelectedColumns<T['$inferSelect'], TColumns>;
 		}
 
 		const dbInstance = getDb(db, context);
@@ -87,8 +91,8 @@ export function createUpdateMethod<
 		await dbInstance.update(table).set(transformed).where(whereClause);
 
 		// Fetch the updated record
-		const [result] = await dbInstance
-			.select()
+		const [result]: Record<string, unknown>[] = await dbInstance
+			.select(fields)
 			.from(table)
 			.where(eq(table.id, id))
 			.limit(1);
@@ -97,6 +101,6 @@ export function createUpdateMethod<
 			throw new Error(`Record with id ${id} not found`);
 		}
 
-		return result as T['$inferSelect'];
+		return result as SelectedColumns<T['$inferSelect'], TColumns>;
 	};
 }
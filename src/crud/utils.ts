@@ -1,13 +1,27 @@
+import {
+	asc,
+	desc,
+	eq,
+	getTableColumns,
+	isNull,
+	type SQL,
+	sql,
+} from 'drizzle-orm';
+
 import type { StandardSchemaV1 } from '../standard-schema.ts';
 import { standardValidate } from '../standard-schema.ts';
 import type {
 	Actor,
+	ColumnsSelection,
 	CrudOperation,
 	CrudOptions,
+	DrizzleColumn,
 	DrizzleDatabase,
+	DrizzleTable,
 	DrizzleTableWithId,
 	OperationContext,
 	ScopeFilters,
+	SoftDeleteConfig,
 } from '../types.ts';
 
 export function getDb<
@@ -22,6 +36,67 @@ export function getDb<
 	return context?.db || db;
 }
 
+/**
+ * The columns to select (or return) for a columns selection, following the
+ * relational query API: only the `true` columns when any is `true`, otherwise
+ * every column except the `false` ones.
+ */
+export function getSelectedFields<T extends DrizzleTableWithId>(
+	table: T,
+	columns?: ColumnsSelection<T>,
+): Record<string, DrizzleColumn<any, any, any>> {
+	const tableColumns = getTableColumns(table);
+
+	if (!columns) return tableColumns;
+
+	const includesOnly = Object.values(columns).some((value) => value === true);
+
+	const fields = Object.fromEntries(
+		Object.entries(tableColumns).filter(([key]) =>
+			includesOnly
+				? columns[key as keyof typeof columns] === true
+				: columns[key as keyof typeof columns] !== false,
+		),
+	);
+
+	if (Object.keys(fields).length === 0) {
+		throw new Error('At least one column must be selected');
+	}
+
+	return fields;
+}
+
+/**
+ * An ORDER BY entry, with an explicit NULLS FIRST/LAST when nulls is set.
+ */
+export function toOrderBy(
+	expression: DrizzleColumn<any, any, any> | SQL,
+	direction: 'asc' | 'desc',
+	nulls?: 'first' | 'last',
+): SQL {
+	if (nulls) {
+		// Both are raw SQL, so never interpolate them as given
+		const order = direction === 'desc' ? 'desc' : 'asc';
+		const placement = nulls === 'last' ? 'last' : 'first';
+
+		return sql`${expression} ${sql.raw(order)} nulls ${sql.raw(placement)}`;
+	}
+
+	return direction === 'desc' ? desc(expression) : asc(expression);
+}
+
+export function getNotDeletedCondition<T extends DrizzleTable>(
+	column: DrizzleColumn<any, any, any>,
+	softDelete: SoftDeleteConfig<T>,
+): SQL {
+	const notDeletedValue = softDelete.notDeletedValue ?? null;
+
+	// Use isNull for null values, eq for other values
+	return notDeletedValue === null
+		? isNull(column)
+		: eq(column, notDeletedValue);
+}
+
 export function createValidate<
 	TDatabase extends DrizzleDatabase,
 	T extends DrizzleTableWithId,
@@ -0,0 +1,123 @@
+import {
+	and,
+	eq,
+	gt,
+	isNotNull,
+	isNull,
+	lt,
+	or,
+	type SQL,
+	sql,
+} from 'drizzle-orm';
+
+import type { DrizzleColumn } from './types.ts';
+
+export type KeysetEntry = {
+	field: string;
+	column: DrizzleColumn<any, any, any>;
+	direction: 'asc' | 'desc';
+	nulls?: 'first' | 'last';
+};
+
+/**
+ * Encodes the keyset values of a row into an opaque, URL-safe cursor token.
+ * Values are stored in their driver representation so they survive JSON.
+ */
+export function encodeCursor(
+	keyset: KeysetEntry[],
+	row: Record<string, any>,
+): string {
+	const values = keyset.map(({ field, column }) => {
+		const value = row[field];
+		return value === null || value === undefined
+			? null
+			: column.mapToDriverValue(value);
+	});
+
+	const bytes = new TextEncoder().encode(JSON.stringify(values));
+	const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join(
+		'',
+	);
+
+	return btoa(binary)
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+export function decodeCursor(keyset: KeysetEntry[], cursor: string): unknown[] {
+	let values: unknown;
+
+	try {
+		const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+		const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+		values = JSON.parse(new TextDecoder().decode(bytes));
+	} catch {
+		throw new Error('Invalid cursor');
+	}
+
+	if (!Array.isArray(values) || values.length !== keyset.length) {
+		throw new Error('Invalid cursor');
+	}
+
+	return values.map((value, index) =>
+		value === null ? null : keyset[index].column.mapFromDriverValue(value),
+	);
+}
+
+/**
+ * Flips every direction (and explicit nulls placement) so the keyset can be
+ * walked backwards.
+ */
+export function reverseKeyset(keyset: KeysetEntry[]): KeysetEntry[] {
+	return keyset.map((entry) => ({
+		...entry,
+		direction: entry.direction === 'asc' ? 'desc' : 'asc',
+		nulls: entry.nulls && (entry.nulls === 'first' ? 'last' : 'first'),
+	}));
+}
+
+/**
+ * Builds the condition matching every row strictly after the cursor values,
+ * following the nulls placement of each entry, or SQLite's default NULL
+ * ordering (NULLs first on asc, last on desc).
+ */
+export function buildKeysetCondition(
+	keyset: KeysetEntry[],
+	values: unknown[],
+): SQL {
+	const branches: SQL[] = [];
+
+	keyset.forEach((entry, index) => {
+		const after = isAfter(entry, values[index]);
+		if (!after) return;
+
+		const equalities = keyset
+			.slice(0, index)
+			.map((previous, i) => isEqual(previous.column, values[i]));
+
+		branches.push(equalities.length > 0 ? and(...equalities, after)! : after);
+	});
+
+	return branches.length > 0 ? or(...branches)! : sql`0 = 1`;
+}
+
+function isEqual(column: DrizzleColumn<any, any, any>, value: unknown): SQL {
+	return value === null ? isNull(column) : eq(column, value);
+}
+
+function isAfter(entry: KeysetEntry, value: unknown): SQL | undefined {
+	const { column, direction } = entry;
+	const nullsFirst = entry.nulls
+		? entry.nulls === 'first'
+		: direction === 'asc';
+
+	if (value === null) {
+		// Every non-null value follows the NULLs when they come first
+		return nullsFirst ? isNotNull(column) : undefined;
+	}
+
+	const after = direction === 'asc' ? gt(column, value) : lt(column, value);
+
+	return nullsFirst ? after : or(after, isNull(column))!;
+}
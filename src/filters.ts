@@ -1,169 +1,680 @@
 import {
 	and,
+	between,
+	Column,
 	eq,
+	getTableColumns,
 	gt,
 	gte,
 	ilike,
 	inArray,
+	is,
+	isNotNull,
+	isNull,
 	like,
 	lt,
 	lte,
 	ne,
+	not,
+	notBetween,
 	notInArray,
 	notLike,
 	or,
 	type SQL,
+	type SQLWrapper,
+	sql,
 } from 'drizzle-orm';
 
+import { getTableRelationalConfig, resolveRelation } from './relations.ts';
 import type {
+	CaseFold,
 	DrizzleColumn,
+	DrizzleTable,
 	DrizzleTableWithId,
+	FilterContext,
 	FilterParams,
+	RangeBounds,
+	RelationFilter,
 } from './types.ts';
 
+/**
+ * Applies the case fold to a value, lower() unless configured otherwise.
+ */
+export function foldCase(value: SQLWrapper, caseFold: CaseFold = 'lower'): SQL {
+	return typeof caseFold === 'function'
+		? caseFold(value)
+		: sql`${sql.identifier(caseFold)}(${value})`;
+}
+
+/**
+ * Escapes the LIKE wildcards (and the escape character itself) of a value,
+ * to be used with `ESCAPE '\'`.
+ */
+export function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, '\\$&');
+}
+
 export function filtersToWhere<T extends DrizzleTableWithId>(
 	table: T,
 	filters?: FilterParams<T['$inferSelect']>,
 	allowedFilters: (keyof T['$inferSelect'])[] = [],
+	allowedJsonPaths: string[] = [],
+	filterContext?: FilterContext,
 ): SQL | undefined {
-	const conditions = parseFilters(table, filters, allowedFilters);
+	const conditions = parseFilters(
+		table,
+		filters,
+		allowedFilters,
+		allowedJsonPaths,
+		filterContext,
+	);
 
 	return conditions.length > 0 ? and(...conditions) : undefined;
 }
 
+/**
+ * Parses a filter tree: the fields of each level are ANDed with its `AND`,
+ * `OR` and `NOT` groups, which nest to any depth.
+ */
 export function parseFilters<T extends DrizzleTableWithId>(
 	table: T,
 	filters?: FilterParams<T['$inferSelect']>,
 	allowedFilters: (keyof T['$inferSelect'])[] = [],
+	allowedJsonPaths: string[] = [],
+	filterContext?: FilterContext,
 ): SQL[] {
 	if (!filters) return [];
 
-	if ('AND' in filters || 'OR' in filters) {
-		const conditions: SQL[] = [];
+	const { AND, OR, NOT, ...fields } = filters;
+	const conditions: SQL[] = [];
 
-		if (filters.AND && Array.isArray(filters.AND)) {
-			const andConditions = filters.AND.map((filterGroup) => {
-				const groupConditions = parseFilterGroup(
-					table,
-					filterGroup,
-					allowedFilters,
-				);
-				return groupConditions.length > 1
-					? and(...groupConditions)
-					: groupConditions[0];
-			}).filter(Boolean);
+	// A group without conditions matches everything, so it is left out
+	const groupToCondition = (group: FilterParams<T['$inferSelect']>) => {
+		const groupConditions = parseFilters(
+			table,
+			group,
+			allowedFilters,
+			allowedJsonPaths,
+			filterContext,
+		);
+		return groupConditions.length > 0 ? and(...groupConditions) : undefined;
+	};
 
-			if (andConditions.length > 0) {
-				conditions.push(and(...andConditions)!);
-			}
+	if (Array.isArray(AND)) {
+		const andConditions = AND.map(groupToCondition).filter(Boolean);
+
+		if (andConditions.length > 0) {
+			conditions.push(and(...andConditions)!);
 		}
+	}
 
-		if (filters.OR && Array.isArray(filters.OR)) {
-			const orConditions = filters.OR.map((filterGroup) => {
-				const groupConditions = parseFilterGroup(
-					table,
-					filterGroup,
-					allowedFilters,
-				);
-				return groupConditions.length > 1
-					? and(...groupConditions)
-					: groupConditions[0];
-			}).filter(Boolean);
+	if (Array.isArray(OR)) {
+		const orConditions = OR.map(groupToCondition).filter(Boolean);
 
-			if (orConditions.length > 0) {
-				conditions.push(or(...orConditions)!);
-			}
+		if (orConditions.length > 0) {
+			conditions.push(or(...orConditions)!);
 		}
+	}
 
-		// Also parse any other filters alongside AND/OR
-		const otherFilters = { ...filters };
-		delete otherFilters.AND;
-		delete otherFilters.OR;
+	if (NOT) {
+		const notCondition = groupToCondition(NOT);
 
-		if (Object.keys(otherFilters).length > 0) {
-			conditions.push(...parseFilterGroup(table, otherFilters, allowedFilters));
+		if (notCondition) {
+			conditions.push(not(notCondition));
 		}
-
-		return conditions;
 	}
 
-	return parseFilterGroup(table, filters, allowedFilters);
+	conditions.push(
+		...parseFilterGroup(
+			table,
+			fields,
+			allowedFilters,
+			allowedJsonPaths,
+			filterContext,
+		),
+	);
+
+	return conditions;
 }
 
 export function parseFilterGroup<T extends DrizzleTableWithId>(
 	table: T,
 	filters: Record<string, any>,
 	allowedFilters: (keyof T['$inferSelect'])[] = [],
+	allowedJsonPaths: string[] = [],
+	filterContext?: FilterContext,
 ): SQL[] {
 	const conditions: SQL[] = [];
 
-	Object.entries(filters).forEach(([key, filterValue]) => {
+	Object.entries(filters).forEach(([key, rawFilterValue]) => {
 		// Skip if filter value is undefined
-		if (filterValue === undefined) {
+		if (rawFilterValue === undefined) {
 			return;
 		}
 
-		// If allowedFilters is specified and not empty, check if key is allowed
-		if (
+		const hasOperators =
+			typeof rawFilterValue === 'object' &&
+			rawFilterValue !== null &&
+			!Array.isArray(rawFilterValue) &&
+			!(rawFilterValue instanceof Date);
+
+		let left: DrizzleColumn<any, any, any> | SQL;
+		let filterValue = rawFilterValue;
+
+		if (key.includes('.')) {
+			// 'metadata.seo.score'
+			left = jsonPathToSql(table, key, allowedJsonPaths);
+		} else if (hasOperators && 'path' in rawFilterValue) {
+			// { metadata: { path: '$.seo.score', ... } }
+			const { path, ...operators } = rawFilterValue;
+
+			if (typeof path !== 'string' || !path.startsWith('$.')) {
+				throw new Error(`Invalid JSON path "${String(path)}"`);
+			}
+
+			left = jsonPathToSql(table, `${key}${path.slice(1)}`, allowedJsonPaths);
+			filterValue = operators;
+		} else if (
+			filterContext?.db &&
+			getTableRelationalConfig(filterContext.db, table)?.relations[key]
+		) {
+			// { posts: { some: { status: 'published' } } }
+			if (filterContext.allowedRelationFilters?.includes(key)) {
+				conditions.push(
+					...relationFilterToConditions(
+						table,
+						key,
+						rawFilterValue,
+						filterContext,
+					),
+				);
+			}
+			return;
+		} else if (
+			// If allowedFilters is specified and not empty, check if key is allowed
 			allowedFilters.length > 0 &&
 			!allowedFilters.includes(key as keyof T['$inferSelect'])
 		) {
 			return;
+		} else {
+			left = table[key as keyof T] as DrizzleColumn<any, any, any>;
 		}
 
-		const column = table[key as keyof T] as DrizzleColumn<any, any, any>;
+		if (hasOperators) {
+			const { bounds, tz, ...operators } = filterValue;
+			const now = filterContext?.clock?.();
 
-		if (
-			typeof filterValue === 'object' &&
-			filterValue !== null &&
-			!Array.isArray(filterValue) &&
-			!(filterValue instanceof Date)
-		) {
-			Object.entries(filterValue).forEach(([operator, value]) => {
-				switch (operator) {
-					case 'equals':
-						conditions.push(eq(column, value));
-						break;
-					case 'not':
-						conditions.push(ne(column, value));
-						break;
-					case 'gt':
-						conditions.push(gt(column, value));
-						break;
-					case 'gte':
-						conditions.push(gte(column, value));
-						break;
-					case 'lt':
-						conditions.push(lt(column, value));
-						break;
-					case 'lte':
-						conditions.push(lte(column, value));
-						break;
-					case 'in':
-						conditions.push(
-							inArray(column, Array.isArray(value) ? value : [value]),
-						);
-						break;
-					case 'notIn':
-						conditions.push(
-							notInArray(column, Array.isArray(value) ? value : [value]),
-						);
-						break;
-					case 'like':
-						conditions.push(like(column, value as string));
-						break;
-					case 'ilike':
-						conditions.push(ilike(column, value as string));
-						break;
-					case 'notLike':
-						conditions.push(notLike(column, value as string));
-						break;
+			Object.entries(operators).forEach(([operator, value]) => {
+				const condition = operatorToCondition(left, operator, value, {
+					bounds,
+					tz,
+					now,
+					caseFold: filterContext?.caseFold,
+				});
+
+				if (condition) {
+					conditions.push(condition);
 				}
 			});
 		} else {
-			conditions.push(eq(column, filterValue));
+			conditions.push(operatorToCondition(left, 'equals', filterValue)!);
 		}
 	});
 
 	return conditions;
 }
+
+/**
+ * Compiles some/every/none on a relation to correlated EXISTS subqueries.
+ * The related filters are parsed with the config of the related table's
+ * crud, so its allowlists apply at every level.
+ */
+function relationFilterToConditions(
+	table: DrizzleTable,
+	relationName: string,
+	filter: RelationFilter,
+	filterContext: FilterContext,
+): SQL[] {
+	const { db, registry } = filterContext;
+	const { relatedTable, related, from, where } = resolveRelation(
+		db!,
+		table,
+		relationName,
+		registry,
+	);
+	const relatedOptions = registry?.get(relatedTable);
+
+	if (!relatedOptions) {
+		throw new Error(
+			`Relation "${relationName}" cannot be filtered without a crud for its table`,
+		);
+	}
+
+	const toCondition = (group: FilterParams<Record<string, any>>) =>
+		filtersToWhere(
+			related as DrizzleTableWithId,
+			group,
+			relatedOptions.allowedFilters as string[] | undefined,
+			relatedOptions.allowedJsonPaths,
+			{
+				...filterContext,
+				allowedRelationFilters: relatedOptions.allowedRelationFilters,
+			},
+		);
+
+	const conditions: SQL[] = [];
+
+	for (const [quantifier, group] of Object.entries(filter ?? {})) {
+		if (group === undefined) continue;
+
+		const condition = toCondition(group);
+
+		switch (quantifier) {
+			case 'some':
+				conditions.push(
+					sql`exists (select 1 from ${from} where ${and(where, condition)})`,
+				);
+				break;
+			case 'none':
+				conditions.push(
+					sql`not exists (select 1 from ${from} where ${and(where, condition)})`,
+				);
+				break;
+			case 'every':
+				// `is not true` also counts a related row the condition compares
+				// with NULL as not matching
+				if (condition) {
+					conditions.push(
+						sql`not exists (select 1 from ${from} where ${where} and (${condition}) is not true)`,
+					);
+				}
+				break;
+			default:
+				throw new Error(`Unknown relation filter "${quantifier}"`);
+		}
+	}
+
+	return conditions;
+}
+
+/**
+ * Whether a field is a path inside a JSON column, e.g. 'metadata.seo.score'.
+ */
+export function isJsonPath<T extends DrizzleTableWithId>(
+	table: T,
+	field: string,
+): boolean {
+	const [key, ...keys] = field.split('.');
+	const column = getTableColumns(table)[key];
+
+	return keys.length > 0 && column?.dataType === 'json';
+}
+
+/**
+ * json_extract() of a path inside a JSON column, given as 'column.key.subkey'.
+ * Only the paths in allowedJsonPaths are accepted, so clients cannot probe
+ * arbitrary keys.
+ */
+export function jsonPathToSql<T extends DrizzleTableWithId>(
+	table: T,
+	field: string,
+	allowedJsonPaths: string[] = [],
+): SQL {
+	if (!allowedJsonPaths.includes(field) || !isJsonPath(table, field)) {
+		throw new Error(`JSON path "${field}" is not allowed`);
+	}
+
+	const [key, ...keys] = field.split('.');
+	const path = keys
+		.map((segment) =>
+			/^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)
+				? segment
+				: `"${segment.replace(/"/g, '\\"')}"`,
+		)
+		.join('.');
+
+	return sql`json_extract(${getTableColumns(table)[key]}, ${`$.${path}`})`;
+}
+
+/**
+ * The keys of an operators object that adjust the other operators, plus the
+ * time relative dates are resolved at.
+ */
+type OperatorModifiers = {
+	bounds?: RangeBounds;
+	tz?: string;
+	now?: Date;
+	caseFold?: CaseFold;
+};
+
+/**
+ * Builds the condition of a single filter operator. The left side can be a
+ * column or any SQL expression (e.g. an aggregate in a HAVING clause).
+ */
+export function operatorToCondition(
+	column: DrizzleColumn<any, any, any> | SQL,
+	operator: string,
+	rawValue: any,
+	modifiers: OperatorModifiers = {},
+): SQL | undefined {
+	const { bounds = '[]', tz = 'UTC', now = new Date(), caseFold } = modifiers;
+	// The operators are overloaded per type, not for the union of both
+	const left = column as DrizzleColumn<any, any, any>;
+	// Relative dates are durations and periods, not dates
+	const value = ['within', 'olderThan', 'period'].includes(operator)
+		? rawValue
+		: coerceFilterValue(column, rawValue);
+
+	switch (operator) {
+		// `= NULL` never matches in SQL, so null compares with IS (NOT) NULL
+		case 'equals':
+			return value === null ? isNull(left) : eq(left, value);
+		case 'not':
+			return value === null ? isNotNull(left) : ne(left, value);
+		case 'gt':
+			return gt(left, value);
+		case 'gte':
+			return gte(left, value);
+		case 'lt':
+			return lt(left, value);
+		case 'lte':
+			return lte(left, value);
+		case 'in':
+			return inArray(left, Array.isArray(value) ? value : [value]);
+		case 'notIn':
+			return notInArray(left, Array.isArray(value) ? value : [value]);
+		case 'between':
+			return rangeCondition(left, toRange(operator, value), bounds);
+		case 'notBetween':
+			return notRangeCondition(left, toRange(operator, value), bounds);
+		case 'like':
+			return like(left, value as string);
+		case 'ilike':
+			return ilike(left, value as string);
+		case 'notLike':
+			return notLike(left, value as string);
+		// Compared as text, as LIKE ignores ASCII case in SQLite
+		case 'startsWith':
+			return sql`substr(${left}, 1, length(${String(value)})) = ${String(value)}`;
+		case 'endsWith':
+			return sql`substr(${left}, length(${left}) - length(${String(value)}) + 1) = ${String(value)}`;
+		case 'contains':
+			return sql`instr(${left}, ${String(value)}) > 0`;
+		case 'istartsWith':
+			return likeFolded(left, `${escapeLike(String(value))}%`, caseFold);
+		case 'iendsWith':
+			return likeFolded(left, `%${escapeLike(String(value))}`, caseFold);
+		case 'icontains':
+			return likeFolded(left, `%${escapeLike(String(value))}%`, caseFold);
+		case 'has':
+			return jsonArrayContains(left, [value]);
+		case 'hasAny':
+			return jsonArrayContains(left, Array.isArray(value) ? value : [value]);
+		case 'hasAll':
+			return and(
+				...(Array.isArray(value) ? value : [value]).map((item) =>
+					jsonArrayContains(left, [item]),
+				),
+			);
+		case 'hasNone': {
+			const values = Array.isArray(value) ? value : [value];
+			return values.length > 0
+				? not(jsonArrayContains(left, values))
+				: undefined;
+		}
+		case 'isNull':
+			return value ? isNull(left) : isNotNull(left);
+		case 'isNotNull':
+			return value ? isNotNull(left) : isNull(left);
+		case 'within':
+			return and(gte(left, subtractDuration(now, value)), lte(left, now));
+		case 'olderThan':
+			return lt(left, subtractDuration(now, value));
+		case 'period': {
+			const [start, end] = resolvePeriod(value, now, tz);
+			return and(gte(left, start), lt(left, end));
+		}
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Dates arrive as strings or numbers from JSON and query strings, and the
+ * timestamp columns only map Date objects to their driver value.
+ */
+function coerceFilterValue(
+	column: DrizzleColumn<any, any, any> | SQL,
+	value: unknown,
+): any {
+	if (Array.isArray(value)) {
+		return value.map((item) => coerceFilterValue(column, item));
+	}
+
+	if (
+		!is(column, Column) ||
+		column.dataType !== 'date' ||
+		(typeof value !== 'string' && typeof value !== 'number')
+	) {
+		return value;
+	}
+
+	const date = new Date(value);
+
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(`Invalid date "${value}"`);
+	}
+
+	return date;
+}
+
+const durationUnits = {
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * The date a duration like '7d' before now. A day is 24 hours.
+ */
+function subtractDuration(now: Date, duration: unknown): Date {
+	const match =
+		typeof duration === 'string' && /^(\d+)([smhdw])$/.exec(duration);
+
+	if (!match) {
+		throw new Error(`Invalid duration "${String(duration)}"`);
+	}
+
+	const unit = durationUnits[match[2] as keyof typeof durationUnits];
+
+	return new Date(now.getTime() - Number(match[1]) * unit);
+}
+
+/**
+ * The start (included) and end (excluded) of a calendar period around now,
+ * with the days starting at midnight in the given time zone.
+ */
+function resolvePeriod(period: unknown, now: Date, tz: string): [Date, Date] {
+	const { year, month, day } = getZonedParts(now, tz);
+	// Date.UTC() rolls over days and months out of range, e.g. day 0
+	const monday =
+		day - ((new Date(Date.UTC(year, month, day)).getUTCDay() + 6) % 7);
+	const midnight = (y: number, m: number, d: number) =>
+		getZonedMidnight(y, m, d, tz);
+
+	switch (period) {
+		case 'today':
+			return [midnight(year, month, day), midnight(year, month, day + 1)];
+		case 'yesterday':
+			return [midnight(year, month, day - 1), midnight(year, month, day)];
+		case 'thisWeek':
+			return [midnight(year, month, monday), midnight(year, month, monday + 7)];
+		case 'lastWeek':
+			return [midnight(year, month, monday - 7), midnight(year, month, monday)];
+		case 'thisMonth':
+			return [midnight(year, month, 1), midnight(year, month + 1, 1)];
+		case 'lastMonth':
+			return [midnight(year, month - 1, 1), midnight(year, month, 1)];
+		case 'thisYear':
+			return [midnight(year, 0, 1), midnight(year + 1, 0, 1)];
+		case 'lastYear':
+			return [midnight(year - 1, 0, 1), midnight(year, 0, 1)];
+		default:
+			throw new Error(`Unknown period "${String(period)}"`);
+	}
+}
+
+/**
+ * The wall clock date and time of an instant in a time zone (0-based month).
+ */
+function getZonedParts(date: Date, tz: string) {
+	let formatter: Intl.DateTimeFormat;
+
+	try {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: tz,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric',
+		});
+	} catch {
+		throw new Error(`Invalid time zone "${tz}"`);
+	}
+
+	const parts = Object.fromEntries(
+		formatter
+			.formatToParts(date)
+			.map(({ type, value }) => [type, Number(value)]),
+	);
+
+	return {
+		year: parts.year,
+		month: parts.month - 1,
+		day: parts.day,
+		hour: parts.hour,
+		minute: parts.minute,
+		second: parts.second,
+	};
+}
+
+/**
+ * The instant of midnight of a date in a time zone.
+ */
+function getZonedMidnight(
+	year: number,
+	month: number,
+	day: number,
+	tz: string,
+): Date {
+	const local = Date.UTC(year, month, day);
+
+	const offsetAt = (time: number) => {
+		const parts = getZonedParts(new Date(time), tz);
+		const wallClock = Date.UTC(
+			parts.year,
+			parts.month,
+			parts.day,
+			parts.hour,
+			parts.minute,
+			parts.second,
+		);
+
+		return wallClock - Math.floor(time / 1000) * 1000;
+	};
+
+	// The offset at the resulting instant may differ when a DST change falls
+	// between midnight UTC and midnight in the time zone
+	const guess = local - offsetAt(local);
+
+	return new Date(local - offsetAt(guess));
+}
+
+function toRange(operator: string, value: unknown): [unknown, unknown] {
+	if (!Array.isArray(value) || value.length !== 2) {
+		throw new Error(`Expected a [from, to] pair for "${operator}"`);
+	}
+
+	return value as [unknown, unknown];
+}
+
+function rangeCondition(
+	column: DrizzleColumn<any, any, any>,
+	[from, to]: [unknown, unknown],
+	bounds: RangeBounds,
+): SQL | undefined {
+	if (bounds === '[]' && from != null && to != null) {
+		return between(column, from, to);
+	}
+
+	return and(
+		from == null
+			? undefined
+			: bounds[0] === '['
+				? gte(column, from)
+				: gt(column, from),
+		to == null
+			? undefined
+			: bounds[1] === ']'
+				? lte(column, to)
+				: lt(column, to),
+	);
+}
+
+function notRangeCondition(
+	column: DrizzleColumn<any, any, any>,
+	[from, to]: [unknown, unknown],
+	bounds: RangeBounds,
+): SQL | undefined {
+	if (bounds === '[]' && from != null && to != null) {
+		return notBetween(column, from, to);
+	}
+
+	return or(
+		from == null
+			? undefined
+			: bounds[0] === '['
+				? lt(column, from)
+				: lte(column, from),
+		to == null
+			? undefined
+			: bounds[1] === ']'
+				? gt(column, to)
+				: gte(column, to),
+	);
+}
+
+/**
+ * LIKE with an escaped pattern, folding the case of both sides in the
+ * database instead of relying on LIKE's ASCII-only case folding.
+ */
+function likeFolded(
+	column: DrizzleColumn<any, any, any>,
+	pattern: string,
+	caseFold?: CaseFold,
+): SQL {
+	return sql`${foldCase(column, caseFold)} like ${foldCase(sql`${pattern}`, caseFold)} escape '\\'`;
+}
+
+/**
+ * Whether a JSON array column holds any of the values. json_each() of NULL has
+ * no rows, so a NULL array holds nothing.
+ */
+function jsonArrayContains(
+	column: DrizzleColumn<any, any, any>,
+	values: unknown[],
+): SQL {
+	if (values.length === 0) return sql`0 = 1`;
+
+	const list = sql.join(
+		values.map((value) => sql`${value}`),
+		sql`, `,
+	);
+
+	return sql`exists (select 1 from json_each(${column}) where json_each.value in (${list}))`;
+}
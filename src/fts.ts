@@ -0,0 +1,107 @@
+import { getTableColumns, getTableName } from 'drizzle-orm';
+
+import type { DrizzleTableWithId, SearchMode } from './types.ts';
+
+export type FullTextSearchTableOptions<T extends DrizzleTableWithId> = {
+	/**
+	 * The columns to index, usually the searchFields of the crud.
+	 */
+	fields: (keyof T['$inferSelect'])[];
+	/**
+	 * The name of the FTS5 virtual table.
+	 * @default `${tableName}_fts`
+	 */
+	name?: string;
+};
+
+export type FullTextSearchTable<
+	T extends DrizzleTableWithId = DrizzleTableWithId,
+> = {
+	/**
+	 * The name to pass as `fullTextSearch.table` in the crud options.
+	 */
+	name: string;
+	/**
+	 * The indexed columns, in order, to pass as `fullTextSearch.fields`.
+	 */
+	fields: (keyof T['$inferSelect'])[];
+	/**
+	 * SQL statements creating the virtual table, the triggers keeping it in
+	 * sync with the table, and indexing the rows that already exist.
+	 */
+	statements: string[];
+};
+
+/**
+ * Generates an external content FTS5 table over some columns of a table, plus
+ * the triggers keeping it in sync. Run the statements once, e.g. in a
+ * migration: `for (const s of statements) await db.run(sql.raw(s))`.
+ */
+export function fullTextSearchTable<T extends DrizzleTableWithId>(
+	table: T,
+	options: FullTextSearchTableOptions<T>,
+): FullTextSearchTable<T> {
+	const tableName = getTableName(table);
+	const name = options.name ?? `${tableName}_fts`;
+	const tableColumns = getTableColumns(table);
+
+	if (options.fields.length === 0) {
+		throw new Error('Full-text search requires at least one field');
+	}
+
+	const columns = options.fields.map((field) => {
+		const column = tableColumns[field as string];
+
+		if (!column) {
+			throw new Error(`Unknown column "${String(field)}"`);
+		}
+
+		return quote(column.name);
+	});
+
+	const id = quote(table.id.name);
+	const fts = quote(name);
+	const source = quote(tableName);
+	const list = columns.join(', ');
+	const values = (row: 'new' | 'old') =>
+		columns.map((column) => `${row}.${column}`).join(', ');
+
+	const insertNew = `INSERT INTO ${fts}(rowid, ${list}) VALUES (new.${id}, ${values('new')});`;
+	const deleteOld = `INSERT INTO ${fts}(${fts}, rowid, ${list}) VALUES ('delete', old.${id}, ${values('old')});`;
+
+	return {
+		name,
+		fields: [...options.fields],
+		statements: [
+			`CREATE VIRTUAL TABLE IF NOT EXISTS ${fts} USING fts5(${list}, content=${literal(tableName)}, content_rowid=${literal(table.id.name)});`,
+			`CREATE TRIGGER IF NOT EXISTS ${quote(`${name}_ai`)} AFTER INSERT ON ${source} BEGIN ${insertNew} END;`,
+			`CREATE TRIGGER IF NOT EXISTS ${quote(`${name}_ad`)} AFTER DELETE ON ${source} BEGIN ${deleteOld} END;`,
+			`CREATE TRIGGER IF NOT EXISTS ${quote(`${name}_au`)} AFTER UPDATE ON ${source} BEGIN ${deleteOld} ${insertNew} END;`,
+			`INSERT INTO ${fts}(${fts}) VALUES ('rebuild');`,
+		],
+	};
+}
+
+/**
+ * Turns a user search term into an FTS5 query. Every token is quoted, so the
+ * FTS5 syntax (AND, OR, NEAR, *, ^...) in the term is matched literally.
+ * - 'contains' and 'prefix': every token, as a prefix of a word
+ * - 'exact': the whole term as a phrase
+ */
+export function toMatchQuery(term: string, mode: SearchMode): string {
+	if (mode === 'exact') {
+		return quote(term.trim());
+	}
+
+	const tokens = term.split(/\s+/).filter(Boolean).map(quote);
+
+	return tokens.map((token) => `${token}*`).join(' ');
+}
+
+function quote(value: string) {
+	return `"${value.replace(/"/g, '""')}"`;
+}
+
+function literal(value: string) {
+	return `'${value.replace(/'/g, "''")}'`;
+}
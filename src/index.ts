@@ -2,6 +2,7 @@ import { crudFactory } from './crud-factory.ts';
 import type {
 	Actor,
 	CrudOptions,
+	CrudRegistry,
 	DrizzleCrudOptions,
 	DrizzleDatabase,
 	DrizzleTableWithId,
@@ -9,12 +10,26 @@ import type {
 } from './types.ts';
 
 export { filtersToWhere } from './filters.ts';
+export {
+	type FullTextSearchTable,
+	type FullTextSearchTableOptions,
+	fullTextSearchTable,
+} from './fts.ts';
+export {
+	type ListQueryOptions,
+	type ListQueryRelation,
+	parseListQuery,
+	stringifyListQuery,
+} from './query-string.ts';
+export { ValidationError } from './standard-schema.ts';
 export type * from './types.ts';
 
 export function drizzleCrud<TDatabase extends DrizzleDatabase>(
 	db: TDatabase,
 	options: DrizzleCrudOptions = {},
 ) {
+	const registry: CrudRegistry = new Map();
+
 	return function createCrud<
 		T extends DrizzleTableWithId,
 		TActor extends Actor = Actor,
@@ -35,6 +50,6 @@ export function drizzleCrud<TDatabase extends DrizzleDatabase>(
 			validation: validation as any,
 		};
 
-		return crudFactory(db, table, mergedOptions);
+		return crudFactory(db, table, mergedOptions, registry);
 	};
 }
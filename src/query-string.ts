@@ -0,0 +1,658 @@
+import { getTableColumns } from 'drizzle-orm';
+
+import { isJsonPath } from './filters.ts';
+import type {
+	DrizzleColumn,
+	DrizzleDatabase,
+	DrizzleTableWithId,
+	JsonPath,
+	ListParams,
+} from './types.ts';
+
+export type ListQueryOptions<T extends DrizzleTableWithId> = {
+	/**
+	 * The fields that can be filtered, usually the allowedFilters of the crud.
+	 * A filter on any other field is rejected. When empty, every column of
+	 * the table is accepted.
+	 */
+	allowedFilters?: (keyof T['$inferSelect'])[];
+	/**
+	 * The JSON paths that can be filtered, usually the allowedJsonPaths of the
+	 * crud, e.g. ['metadata.seo.score'].
+	 */
+	allowedJsonPaths?: JsonPath<T>[];
+	/**
+	 * The relations that can be filtered with some/every/none, with the table
+	 * and options of each, usually mirroring the crud of the related table.
+	 * e.g., { posts: { table: posts, allowedFilters: ['status'] } }
+	 */
+	relations?: Record<string, ListQueryRelation>;
+};
+
+/**
+ * A relation parseListQuery reads `filters[relation][some][...]` for.
+ */
+export type ListQueryRelation<T extends DrizzleTableWithId = any> =
+	ListQueryOptions<T> & {
+		table: T;
+	};
+
+/**
+ * A parsed `filters[...]` key: the values of a leaf, or its children.
+ */
+type QueryNode = string[] | { [key: string]: QueryNode };
+
+type OrderByEntry = {
+	field: string;
+	direction: 'asc' | 'desc';
+	nulls?: 'first' | 'last';
+};
+
+// Keys that would reach Object.prototype from a plain object
+const unsafeSegments = ['__proto__', 'constructor', 'prototype'];
+
+const listOperators = ['in', 'notIn', 'hasAny', 'hasAll', 'hasNone'];
+const rangeOperators = ['between', 'notBetween'];
+const booleanOperators = ['isNull', 'isNotNull'];
+const scalarOperators = ['equals', 'not', 'gt', 'gte', 'lt', 'lte', 'has'];
+// Patterns, durations, periods and modifiers are kept as text
+const textOperators = [
+	'like',
+	'ilike',
+	'notLike',
+	'startsWith',
+	'endsWith',
+	'contains',
+	'istartsWith',
+	'iendsWith',
+	'icontains',
+	'within',
+	'olderThan',
+	'period',
+	'tz',
+	'bounds',
+	'path',
+];
+
+/**
+ * Parses a query string into list() params, e.g.
+ * `?page=2&search=x&orderBy=-createdAt,name&filters[status][in]=a,b`.
+ *
+ * Filter values are converted to the type of their column. A list takes
+ * comma-separated values, repeated keys (taken as is) or indexed keys
+ * (`filters[role][in][0]=a`). Groups nest as `filters[OR][0][role]=admin`,
+ * and relations listed in `relations` as `filters[posts][some][status]=a`.
+ * Unknown query keys are ignored, so the handler can read its own.
+ */
+export function parseListQuery<
+	T extends DrizzleTableWithId,
+	TDatabase extends DrizzleDatabase = DrizzleDatabase,
+>(
+	query: URLSearchParams | string,
+	table: T,
+	options: ListQueryOptions<T> = {},
+): ListParams<T, TDatabase> {
+	const searchParams =
+		typeof query === 'string' ? new URLSearchParams(query) : query;
+	const params: Record<string, unknown> = {};
+	const filters: { [key: string]: QueryNode } = Object.create(null);
+
+	for (const [key, value] of searchParams) {
+		if (key.startsWith('filters[')) {
+			setQueryNode(filters, parseFilterKey(key), value);
+			continue;
+		}
+
+		switch (key) {
+			case 'page':
+			case 'perPage':
+				params[key] = toInteger(key, value);
+				break;
+			case 'search':
+			case 'searchMode':
+			case 'count':
+			case 'after':
+			case 'before':
+				params[key] = value;
+				break;
+			case 'cursor':
+			case 'includeDeleted':
+				params[key] = toBoolean(key, value);
+				break;
+			case 'orderBy':
+				params.orderBy = value.split(',').filter(Boolean).map(parseOrderBy);
+				break;
+		}
+	}
+
+	if (Object.keys(filters).length > 0) {
+		params.filters = parseFilterGroup(
+			table,
+			filters,
+			options as ListQueryOptions<DrizzleTableWithId>,
+		);
+	}
+
+	return params as ListParams<T, TDatabase>;
+}
+
+/**
+ * Builds the query string (without `?`) parseListQuery reads back. A query
+ * string has no null: comparing with null is written as isNull/isNotNull,
+ * and any other null throws.
+ */
+export function stringifyListQuery<
+	T extends DrizzleTableWithId,
+	TDatabase extends DrizzleDatabase = DrizzleDatabase,
+>(params: ListParams<T, TDatabase>): string {
+	const entries: [string, string][] = [];
+	const add = (key: string, value: unknown) => {
+		if (value !== undefined) entries.push([key, toText(value)]);
+	};
+
+	add('page', params.page);
+	add('perPage', params.perPage);
+	add('search', params.search);
+	add('searchMode', params.searchMode);
+
+	if (params.orderBy && params.orderBy.length > 0) {
+		add(
+			'orderBy',
+			params.orderBy
+				.map((orderBy) => stringifyOrderBy(orderBy as OrderByEntry))
+				.join(','),
+		);
+	}
+
+	if (params.filters) {
+		appendFilterGroup(entries, 'filters', params.filters);
+	}
+
+	add('includeDeleted', params.includeDeleted);
+	add('count', params.count);
+	add('cursor', params.cursor);
+	add('after', params.after);
+	add('before', params.before);
+
+	// Brackets and commas are kept readable, they are valid in a query string
+	const encode = (text: string) =>
+		encodeURIComponent(text)
+			.replace(/%5B/g, '[')
+			.replace(/%5D/g, ']')
+			.replace(/%2C/g, ',');
+
+	return entries
+		.map(([key, value]) => `${encode(key)}=${encode(value)}`)
+		.join('&');
+}
+
+function parseFilterKey(key: string): string[] {
+	const brackets = key.slice('filters'.length);
+	const segments = [...brackets.matchAll(/\[([^\]]*)\]/g)];
+
+	// Nothing but brackets may follow, e.g. not `filters[a]b`
+	if (segments.map((segment) => segment[0]).join('') !== brackets) {
+		throw new Error(`Invalid filter key "${key}"`);
+	}
+
+	return segments.map((segment) => segment[1]);
+}
+
+function setQueryNode(
+	node: { [key: string]: QueryNode },
+	path: string[],
+	value: string,
+) {
+	const [segment, ...rest] = path;
+
+	if (unsafeSegments.includes(segment)) {
+		throw new Error(`Invalid filter "${segment}"`);
+	}
+
+	const child = Object.hasOwn(node, segment) ? node[segment] : undefined;
+
+	if (rest.length === 0) {
+		if (child !== undefined && !Array.isArray(child)) {
+			throw new Error(`Invalid filter "${segment}"`);
+		}
+
+		node[segment] = [...(child ?? []), value];
+		return;
+	}
+
+	if (Array.isArray(child)) {
+		throw new Error(`Invalid filter "${segment}"`);
+	}
+
+	const next: { [key: string]: QueryNode } = child ?? Object.create(null);
+
+	node[segment] = next;
+	setQueryNode(next, rest, value);
+}
+
+function parseFilterGroup(
+	table: DrizzleTableWithId,
+	group: { [key: string]: QueryNode },
+	options: ListQueryOptions<DrizzleTableWithId>,
+): Record<string, unknown> {
+	const tableColumns = getTableColumns(table);
+	const allowedFilters = (options.allowedFilters ?? []) as string[];
+	const allowedJsonPaths = (options.allowedJsonPaths ?? []) as string[];
+
+	return Object.fromEntries(
+		Object.entries(group).map(([key, node]) => {
+			if (key === 'AND' || key === 'OR') {
+				return [
+					key,
+					toIndexedList(key, node).map((child) => {
+						if (Array.isArray(child)) {
+							throw new Error(`Invalid filter "${key}"`);
+						}
+						return parseFilterGroup(table, child, options);
+					}),
+				];
+			}
+
+			if (key === 'NOT') {
+				if (Array.isArray(node)) {
+					throw new Error('Invalid filter "NOT"');
+				}
+				return [key, parseFilterGroup(table, node, options)];
+			}
+
+			const relation = options.relations?.[key];
+
+			if (relation) {
+				return [key, parseRelationFilter(key, node, relation)];
+			}
+
+			if (allowedJsonPaths.includes(key) && isJsonPath(table, key)) {
+				return [key, parseFieldFilter(undefined, key, node)];
+			}
+
+			const column = tableColumns[key];
+
+			if (
+				!column ||
+				(allowedFilters.length > 0 &&
+					!allowedFilters.includes(key) &&
+					!isAllowedPathFilter(table, key, node, allowedJsonPaths))
+			) {
+				throw new Error(`Field "${key}" is not an allowed filter`);
+			}
+
+			return [key, parseFieldFilter(column, key, node)];
+		}),
+	);
+}
+
+/**
+ * `filters[metadata][path]=$.seo.score` reads a JSON path, and is allowed by
+ * allowedJsonPaths without the column being an allowed filter.
+ */
+function isAllowedPathFilter(
+	table: DrizzleTableWithId,
+	key: string,
+	node: QueryNode,
+	allowedJsonPaths: string[],
+): boolean {
+	if (Array.isArray(node) || !Array.isArray(node.path)) return false;
+
+	const path = node.path[node.path.length - 1];
+	const field = `${key}${path.slice(1)}`;
+
+	return (
+		path.startsWith('$.') &&
+		allowedJsonPaths.includes(field) &&
+		isJsonPath(table, field)
+	);
+}
+
+/**
+ * `filters[posts][some][status]=published`, parsed with the options of the
+ * related table.
+ */
+function parseRelationFilter(
+	relationName: string,
+	node: QueryNode,
+	relation: ListQueryRelation,
+): Record<string, unknown> {
+	if (Array.isArray(node)) {
+		throw new Error(`Invalid filter "${relationName}"`);
+	}
+
+	return Object.fromEntries(
+		Object.entries(node).map(([quantifier, group]) => {
+			if (
+				!['some', 'every', 'none'].includes(quantifier) ||
+				Array.isArray(group)
+			) {
+				throw new Error(`Invalid filter "${relationName}"`);
+			}
+
+			return [
+				quantifier,
+				parseFilterGroup(
+					relation.table,
+					group,
+					relation as ListQueryOptions<DrizzleTableWithId>,
+				),
+			];
+		}),
+	);
+}
+
+/**
+ * The value of a column or a JSON path, without a column for JSON paths.
+ */
+function parseFieldFilter(
+	column: DrizzleColumn | undefined,
+	field: string,
+	node: QueryNode,
+): unknown {
+	// filters[status]=active
+	if (Array.isArray(node)) {
+		return coerce(column, field, node[node.length - 1]);
+	}
+
+	return Object.fromEntries(
+		Object.entries(node).map(([operator, values]) => [
+			operator,
+			parseOperatorValue(column, field, operator, values),
+		]),
+	);
+}
+
+function parseOperatorValue(
+	column: DrizzleColumn | undefined,
+	field: string,
+	operator: string,
+	node: QueryNode,
+): unknown {
+	if (listOperators.includes(operator)) {
+		return toList(operator, node).map((value) => coerce(column, field, value));
+	}
+
+	if (rangeOperators.includes(operator)) {
+		const range = toList(operator, node);
+
+		if (range.length !== 2) {
+			throw new Error(
+				`Expected 2 values for "${operator}", got ${range.length}`,
+			);
+		}
+
+		// An empty side leaves the range open
+		return range.map((value) =>
+			value === '' ? null : coerce(column, field, value),
+		);
+	}
+
+	if (!Array.isArray(node)) {
+		throw new Error(`Invalid filter "${field}"`);
+	}
+
+	const value = node[node.length - 1];
+
+	if (booleanOperators.includes(operator)) {
+		return toBoolean(operator, value);
+	}
+
+	if (scalarOperators.includes(operator)) {
+		return coerce(column, field, value);
+	}
+
+	if (textOperators.includes(operator)) {
+		return value;
+	}
+
+	throw new Error(`Unknown filter operator "${operator}"`);
+}
+
+/**
+ * The values of a list: one comma-separated value, repeated keys taken as
+ * is, or indexed keys.
+ */
+function toList(name: string, node: QueryNode): string[] {
+	if (!Array.isArray(node)) {
+		return toIndexedList(name, node).map((child) => {
+			if (!Array.isArray(child)) {
+				throw new Error(`Invalid filter "${name}"`);
+			}
+			return child[child.length - 1];
+		});
+	}
+
+	if (node.length > 1) return node;
+
+	return node[0] === '' ? [] : node[0].split(',');
+}
+
+function toIndexedList(name: string, node: QueryNode): QueryNode[] {
+	if (Array.isArray(node)) {
+		throw new Error(`Invalid filter "${name}"`);
+	}
+
+	const keys = Object.keys(node);
+
+	if (keys.some((key) => !/^\d+$/.test(key))) {
+		throw new Error(`Invalid filter "${name}"`);
+	}
+
+	return keys.sort((a, b) => Number(a) - Number(b)).map((key) => node[key]);
+}
+
+/**
+ * `-createdAt` sorts descending, and a `:nullsFirst` or `:nullsLast` suffix
+ * places the NULLs.
+ */
+function parseOrderBy(value: string): OrderByEntry {
+	const [sort, nulls] = value.split(':');
+	const descending = sort.startsWith('-');
+	const orderBy: OrderByEntry = {
+		field: descending ? sort.slice(1) : sort,
+		direction: descending ? 'desc' : 'asc',
+	};
+
+	if (nulls === 'nullsFirst' || nulls === 'nullsLast') {
+		orderBy.nulls = nulls === 'nullsFirst' ? 'first' : 'last';
+	} else if (nulls !== undefined) {
+		throw new Error(`Invalid orderBy "${value}"`);
+	}
+
+	return orderBy;
+}
+
+function stringifyOrderBy({ field, direction, nulls }: OrderByEntry): string {
+	const sort = `${direction === 'desc' ? '-' : ''}${String(field)}`;
+
+	return nulls ? `${sort}:nulls${nulls === 'first' ? 'First' : 'Last'}` : sort;
+}
+
+function appendFilterGroup(
+	entries: [string, string][],
+	prefix: string,
+	group: Record<string, unknown>,
+) {
+	for (const [key, value] of Object.entries(group)) {
+		const path = `${prefix}[${key}]`;
+
+		if (value === undefined) continue;
+
+		if ((key === 'AND' || key === 'OR') && Array.isArray(value)) {
+			value.forEach((child, index) => {
+				appendFilterGroup(entries, `${path}[${index}]`, child);
+			});
+		} else if (key === 'NOT' && isPlainObject(value)) {
+			appendFilterGroup(entries, path, value);
+		} else if (isRelationFilter(value)) {
+			for (const [quantifier, child] of Object.entries(value)) {
+				if (child !== undefined) {
+					appendFilterGroup(entries, `${path}[${quantifier}]`, child);
+				}
+			}
+		} else if (isPlainObject(value)) {
+			for (const [operator, operand] of Object.entries(value)) {
+				appendOperator(entries, key, path, operator, operand);
+			}
+		} else {
+			appendOperator(entries, key, path, 'equals', value, false);
+		}
+	}
+}
+
+/**
+ * A query string has no null, so comparing with null is written as
+ * isNull/isNotNull. A null anywhere else cannot be read back.
+ */
+function appendOperator(
+	entries: [string, string][],
+	field: string,
+	path: string,
+	operator: string,
+	value: unknown,
+	explicit = true,
+) {
+	if (value === null && (operator === 'equals' || operator === 'not')) {
+		entries.push([
+			`${path}[${operator === 'equals' ? 'isNull' : 'isNotNull'}]`,
+			'true',
+		]);
+		return;
+	}
+
+	if (
+		value === null ||
+		(listOperators.includes(operator) &&
+			Array.isArray(value) &&
+			value.includes(null))
+	) {
+		throw new Error(`Cannot write null for "${field}" in a query string`);
+	}
+
+	appendQueryValue(entries, explicit ? `${path}[${operator}]` : path, value);
+}
+
+function isRelationFilter(
+	value: unknown,
+): value is Record<string, Record<string, unknown>> {
+	return (
+		isPlainObject(value) &&
+		Object.keys(value).length > 0 &&
+		Object.keys(value).every((key) => ['some', 'every', 'none'].includes(key))
+	);
+}
+
+function appendQueryValue(
+	entries: [string, string][],
+	key: string,
+	value: unknown,
+) {
+	if (value === undefined) return;
+
+	if (Array.isArray(value)) {
+		const texts = value.map((item) =>
+			isPlainObject(item) ? undefined : toText(item),
+		);
+
+		// A list of scalars is comma-separated, unless a value has a comma
+		if (texts.every((text) => text !== undefined && !text.includes(','))) {
+			entries.push([key, texts.join(',')]);
+			return;
+		}
+
+		value.forEach((item, index) => {
+			appendQueryValue(entries, `${key}[${index}]`, item);
+		});
+		return;
+	}
+
+	if (isPlainObject(value)) {
+		for (const [childKey, child] of Object.entries(value)) {
+			appendQueryValue(entries, `${key}[${childKey}]`, child);
+		}
+		return;
+	}
+
+	entries.push([key, toText(value)]);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		!Array.isArray(value) &&
+		!(value instanceof Date)
+	);
+}
+
+function toText(value: unknown): string {
+	if (value === null) return '';
+	if (value instanceof Date) return value.toISOString();
+
+	return String(value);
+}
+
+/**
+ * Turns a query string value into the type of its column. Values inside JSON
+ * have no declared type: numbers and booleans are read as such, and anything
+ * else as text.
+ */
+function coerce(
+	column: DrizzleColumn | undefined,
+	field: string,
+	value: string,
+): unknown {
+	switch (column?.dataType ?? 'json') {
+		case 'json':
+			if (value === 'true' || value === 'false') return value === 'true';
+
+			return value.trim() !== '' && !Number.isNaN(Number(value))
+				? Number(value)
+				: value;
+		case 'number': {
+			const number = Number(value);
+
+			if (value.trim() === '' || Number.isNaN(number)) {
+				throw new Error(`Invalid number "${value}" for "${field}"`);
+			}
+
+			return number;
+		}
+		case 'bigint':
+			try {
+				return BigInt(value);
+			} catch {
+				throw new Error(`Invalid number "${value}" for "${field}"`);
+			}
+		case 'boolean':
+			return toBoolean(field, value);
+		case 'date': {
+			// Epoch milliseconds or an ISO date
+			const date = new Date(/^-?\d+$/.test(value) ? Number(value) : value);
+
+			if (Number.isNaN(date.getTime())) {
+				throw new Error(`Invalid date "${value}" for "${field}"`);
+			}
+
+			return date;
+		}
+		default:
+			return value;
+	}
+}
+
+function toInteger(name: string, value: string): number {
+	if (!/^\d+$/.test(value)) {
+		throw new Error(`Invalid ${name} "${value}"`);
+	}
+
+	return Number(value);
+}
+
+function toBoolean(name: string, value: string): boolean {
+	if (value === 'true' || value === '1') return true;
+	if (value === 'false' || value === '0') return false;
+
+	throw new Error(`Invalid ${name} "${value}"`);
+}
@@ -0,0 +1,363 @@
+import {
+	and,
+	eq,
+	getTableColumns,
+	getTableName,
+	getTableUniqueName,
+	inArray,
+	is,
+	normalizeRelation,
+	One,
+	type SQL,
+	sql,
+	type TableRelationalConfig,
+} from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
+
+import { getNotDeletedCondition } from './crud/utils.ts';
+import type {
+	CrudRegistry,
+	DrizzleColumn,
+	DrizzleDatabase,
+	DrizzleTable,
+	DrizzleTableWithId,
+} from './types.ts';
+
+export type RelationalConfig = {
+	columns?: Record<string, boolean | undefined>;
+	with?: Record<string, unknown>;
+	extras?: unknown;
+};
+
+/**
+ * The tables behind the aliases created by resolveRelation().
+ */
+const aliasedTables = new WeakMap<DrizzleTable, DrizzleTable>();
+
+/**
+ * Picks the relational query options (`columns`, `with`, `extras`) out of
+ * the params, or returns undefined when no relation or extra was requested.
+ * A plain `columns` selection is handled by the select query itself.
+ */
+export function getRelationalConfig(
+	params: Record<string, any> | undefined,
+): RelationalConfig | undefined {
+	if (!params) return undefined;
+
+	const { columns, with: withRelations, extras } = params;
+
+	if (!withRelations && !extras) return undefined;
+
+	return { columns, with: withRelations, extras };
+}
+
+/**
+ * Looks up the relational config (columns + relations) of a table in the
+ * schema the database was created with.
+ */
+export function getTableRelationalConfig(
+	db: DrizzleDatabase,
+	table: DrizzleTable,
+): TableRelationalConfig | undefined {
+	// An alias is looked up as the table it aliases
+	const tsName =
+		db._.tableNamesMap[getTableUniqueName(aliasedTables.get(table) ?? table)];
+
+	return tsName ? db._.schema?.[tsName] : undefined;
+}
+
+/**
+ * Loads rows by id through the relational query API, so `with`, `columns`
+ * and `extras` are honored. Rows come back in the order of `ids`.
+ */
+export async function loadRelational<T extends DrizzleTableWithId>(
+	db: DrizzleDatabase,
+	table: T,
+	ids: unknown[],
+	config: RelationalConfig,
+	registry?: CrudRegistry,
+): Promise<Record<string, any>[]> {
+	if (ids.length === 0) return [];
+
+	const tableConfig = getTableRelationalConfig(db, table);
+	const query = tableConfig && (db as any).query?.[tableConfig.tsName];
+
+	if (!query) {
+		throw new Error(
+			`Table "${getTableName(table)}" is not part of the drizzle schema, so relations cannot be loaded`,
+		);
+	}
+
+	// id is needed to restore the order, even when not selected
+	const { columns, stripId } = withIdColumn(config.columns);
+
+	const rows: Record<string, any>[] = await query.findMany({
+		...config,
+		columns,
+		with:
+			config.with && registry
+				? hideDeletedRelations(db, tableConfig, config.with, registry)
+				: config.with,
+		where: inArray(table.id, ids),
+	});
+
+	const rowsById = new Map(rows.map((row) => [row.id, row]));
+
+	return ids
+		.map((id) => rowsById.get(id))
+		.filter((row) => row !== undefined)
+		.map((row) => {
+			if (!stripId) return row;
+
+			const { id: _id, ...rest } = row;
+			return rest;
+		});
+}
+
+/**
+ * Builds an EXISTS subquery matching the rows that have a related row whose
+ * column (a path like 'author.name') satisfies the condition. Unlike a join,
+ * it never duplicates rows of a many relation. Soft deleted related rows are
+ * ignored when their crud has soft delete configured.
+ */
+export function relatedFieldExists(
+	db: DrizzleDatabase,
+	table: DrizzleTable,
+	path: string,
+	condition: (column: DrizzleColumn) => SQL,
+	registry?: CrudRegistry,
+): SQL {
+	const { from, column, where } = resolveRelationPath(
+		db,
+		table,
+		path,
+		registry,
+	);
+
+	return sql`exists (select 1 from ${from} where ${and(where, condition(column))})`;
+}
+
+/**
+ * Builds a scalar subquery selecting the column of a to-one relation (a path
+ * like 'author.name'), e.g. to sort by it. It is NULL without a related row.
+ */
+export function relatedFieldValue(
+	db: DrizzleDatabase,
+	table: DrizzleTable,
+	path: string,
+	registry?: CrudRegistry,
+): SQL {
+	const { relation, from, column, where } = resolveRelationPath(
+		db,
+		table,
+		path,
+		registry,
+	);
+
+	if (!is(relation, One)) {
+		throw new Error(`"${path}" is not a field of a to-one relation`);
+	}
+
+	return sql`(select ${column} from ${from} where ${where} limit 1)`;
+}
+
+/**
+ * Every column of the to-one relations of a table, as 'relation.column' paths.
+ */
+export function getToOneFieldPaths(
+	db: DrizzleDatabase,
+	table: DrizzleTable,
+): string[] {
+	const tableConfig = getTableRelationalConfig(db, table);
+
+	return Object.entries(tableConfig?.relations ?? {}).flatMap(
+		([relationName, relation]) =>
+			is(relation, One)
+				? Object.keys(getTableColumns(relation.referencedTable)).map(
+						(field) => `${relationName}.${field}`,
+					)
+				: [],
+	);
+}
+
+function resolveRelationPath(
+	db: DrizzleDatabase,
+	table: DrizzleTable,
+	path: string,
+	registry?: CrudRegistry,
+) {
+	const [relationName, field, ...rest] = path.split('.');
+
+	if (!field || rest.length > 0) {
+		throw new Error(
+			`Invalid relation path "${path}", expected "relation.column"`,
+		);
+	}
+
+	const { relation, related, from, where } = resolveRelation(
+		db,
+		table,
+		relationName,
+		registry,
+	);
+
+	if (!getTableColumns(relation.referencedTable)[field]) {
+		throw new Error(`Unknown column "${field}" on relation "${relationName}"`);
+	}
+
+	return {
+		relation,
+		from,
+		column: related[field as keyof typeof related] as DrizzleColumn,
+		where,
+	};
+}
+
+/**
+ * Resolves a relation of a table for a correlated subquery: the related
+ * table under an alias, its FROM clause and the condition joining it to the
+ * table. Soft deleted related rows are left out when their crud has soft
+ * delete configured. The table itself may be an alias, so relations nest.
+ */
+export function resolveRelation(
+	db: DrizzleDatabase,
+	table: DrizzleTable,
+	relationName: string,
+	registry?: CrudRegistry,
+) {
+	const tableConfig = getTableRelationalConfig(db, table);
+	const relation = tableConfig?.relations[relationName];
+
+	if (!tableConfig || !relation) {
+		throw new Error(
+			`Unknown relation "${relationName}" on table "${getTableName(table)}"`,
+		);
+	}
+
+	const relatedTable = relation.referencedTable;
+	const relatedColumns = getTableColumns(relatedTable);
+
+	// Aliased, so a relation to the same table (e.g. parent) stays unambiguous
+	const aliasName = `${getTableName(table)}_${relationName}`;
+	const related = alias(
+		relatedTable as any,
+		aliasName,
+	) as unknown as DrizzleTable;
+	const relatedAliasColumns = related as unknown as Record<
+		string,
+		DrizzleColumn
+	>;
+
+	aliasedTables.set(related, relatedTable);
+
+	const { fields, references } = normalizeRelation(
+		db._.schema!,
+		db._.tableNamesMap,
+		relation,
+	);
+
+	// Columns are matched by key, as both sides may be aliases
+	const keyOf = (columns: Record<string, DrizzleColumn>) =>
+		new Map(Object.entries(columns).map(([key, value]) => [value, key]));
+	const sourceKeys = keyOf(
+		tableConfig.columns as Record<string, DrizzleColumn>,
+	);
+	const relatedKeys = keyOf(relatedColumns);
+	const sourceColumns = table as unknown as Record<string, DrizzleColumn>;
+
+	const joins = fields.map((sourceColumn, index) =>
+		eq(
+			relatedAliasColumns[relatedKeys.get(references[index])!],
+			sourceColumns[sourceKeys.get(sourceColumn)!],
+		),
+	);
+
+	const softDelete = registry?.get(relatedTable)?.softDelete;
+
+	const where = and(
+		...joins,
+		softDelete
+			? getNotDeletedCondition(
+					relatedAliasColumns[softDelete.field as string],
+					softDelete,
+				)
+			: undefined,
+	)!;
+
+	return {
+		relation,
+		relatedTable,
+		related,
+		from: sql`${sql.identifier(getTableName(relatedTable))} ${sql.identifier(aliasName)}`,
+		where,
+	};
+}
+
+/**
+ * Adds the soft delete condition of every related table that has a crud
+ * with soft delete configured, at any depth of `with`.
+ */
+function hideDeletedRelations(
+	db: DrizzleDatabase,
+	tableConfig: TableRelationalConfig,
+	withRelations: Record<string, unknown>,
+	registry: CrudRegistry,
+): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(withRelations).map(([key, value]) => {
+			const relation = tableConfig.relations[key];
+			if (!value || !relation) return [key, value];
+
+			const relatedTable = relation.referencedTable;
+			const relatedConfig = getTableRelationalConfig(db, relatedTable);
+			const softDelete = registry.get(relatedTable)?.softDelete;
+			const nested: Record<string, any> = value === true ? {} : { ...value };
+
+			if (relatedConfig && nested.with) {
+				nested.with = hideDeletedRelations(
+					db,
+					relatedConfig,
+					nested.with,
+					registry,
+				);
+			}
+
+			if (softDelete) {
+				const where = nested.where;
+
+				nested.where = (
+					fields: Record<string, DrizzleColumn>,
+					operators: unknown,
+				): SQL | undefined =>
+					and(
+						typeof where === 'function' ? where(fields, operators) : where,
+						getNotDeletedCondition(
+							fields[softDelete.field as string],
+							softDelete,
+						),
+					);
+			}
+
+			return [key, nested];
+		}),
+	);
+}
+
+function withIdColumn(columns: RelationalConfig['columns']) {
+	if (!columns) return { columns, stripId: false };
+
+	const includesOnly = Object.values(columns).some((value) => value === true);
+
+	if (includesOnly) {
+		return columns.id
+			? { columns, stripId: false }
+			: { columns: { ...columns, id: true }, stripId: true };
+	}
+
+	if (columns.id === false) {
+		const { id: _id, ...rest } = columns;
+		return { columns: rest, stripId: true };
+	}
+
+	return { columns, stripId: false };
+}
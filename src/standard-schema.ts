@@ -69,6 +69,19 @@ export declare namespace StandardSchemaV1 {
 	>['output'];
 }
 
+/**
+ * Thrown when a schema rejects the input, with the issues of the schema.
+ */
+export class ValidationError extends Error {
+	readonly issues: ReadonlyArray<StandardSchemaV1.Issue>;
+
+	constructor(issues: ReadonlyArray<StandardSchemaV1.Issue>) {
+		super(JSON.stringify(issues, null, 2));
+		this.name = 'ValidationError';
+		this.issues = issues;
+	}
+}
+
 export async function standardValidate<T extends StandardSchemaV1>(
 	schema: T,
 	input: StandardSchemaV1.InferInput<T>,
@@ -78,7 +91,7 @@ export async function standardValidate<T extends StandardSchemaV1>(
 
 	// if the `issues` field exists, the validation failed
 	if (result.issues) {
-		throw new Error(JSON.stringify(result.issues, null, 2));
+		throw new ValidationError(result.issues);
 	}
 
 	return (
@@ -1,8 +1,15 @@
 import type {
 	Column as DrizzleColumn,
 	Table as DrizzleTable,
+	InferModelFromColumns,
 	SQL,
+	SQLWrapper,
 } from 'drizzle-orm';
+import type {
+	ExtractTablesWithRelations,
+	One,
+	Relation,
+} from 'drizzle-orm/relations';
 import type { BaseSQLiteDatabase } from 'drizzle-orm/sqlite-core';
 
 import type { StandardSchemaV1 } from './standard-schema.ts';
@@ -15,6 +22,100 @@ export type DrizzleTableWithId = DrizzleTable & {
 	id: DrizzleColumn<any>;
 };
 
+export type RelationalSchema<TDatabase extends DrizzleDatabase> =
+	ExtractTablesWithRelations<TDatabase['_']['fullSchema']>;
+
+/**
+ * The relational config (columns + relations) of a table, matched by its database name.
+ */
+export type RelationalTable<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTable,
+> = RelationalTableByName<TDatabase, T['_']['name']>;
+
+export type RelationalTableByName<
+	TDatabase extends DrizzleDatabase,
+	TName extends string,
+> = {
+	[K in keyof RelationalSchema<TDatabase>]: RelationalSchema<TDatabase>[K]['dbName'] extends TName
+		? RelationalSchema<TDatabase>[K]
+		: never;
+}[keyof RelationalSchema<TDatabase>];
+
+type Relations<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTable,
+> = RelationalTable<TDatabase, T>['relations'];
+
+/**
+ * A column of a related table, e.g. 'author.name'. Pass 'one' to only allow
+ * to-one relations.
+ */
+export type RelationFieldPath<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTable,
+	TKind extends 'one' | 'any' = 'any',
+> = {
+	[K in keyof Relations<TDatabase, T> & string]: Relations<
+		TDatabase,
+		T
+	>[K] extends Relation<infer TName>
+		? TKind extends 'one'
+			? Relations<TDatabase, T>[K] extends One
+				? `${K}.${keyof RelationalTableByName<TDatabase, TName>['columns'] & string}`
+				: never
+			: `${K}.${keyof RelationalTableByName<TDatabase, TName>['columns'] & string}`
+		: never;
+}[keyof Relations<TDatabase, T> & string];
+
+/**
+ * A column of the table, or a column of a related table ('author.name').
+ */
+export type SearchField<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+> = keyof T['$inferSelect'] | RelationFieldPath<TDatabase, T>;
+
+/**
+ * The relation filters of a table (by database name), typed with the
+ * columns and relations of each related table.
+ */
+export type RelationFilters<
+	TDatabase extends DrizzleDatabase,
+	TName extends string,
+> = string extends keyof RelationalTableByName<TDatabase, TName>['relations']
+	? Record<never, never>
+	: {
+			[K in keyof RelationalTableByName<
+				TDatabase,
+				TName
+			>['relations']]?: RelationalTableByName<
+				TDatabase,
+				TName
+			>['relations'][K] extends Relation<infer TTarget>
+				? RelationFilter<
+						FilterParams<
+							InferModelFromColumns<
+								RelationalTableByName<TDatabase, TTarget>['columns']
+							>,
+							RelationFilters<TDatabase, TTarget>
+						>
+					>
+				: never;
+		};
+
+type JsonColumnKey<T extends DrizzleTable> = {
+	[K in keyof T['_']['columns']]: T['_']['columns'][K]['_']['dataType'] extends 'json'
+		? K
+		: never;
+}[keyof T['_']['columns']];
+
+/**
+ * A path inside a JSON column, e.g. 'metadata.seo.score'.
+ */
+export type JsonPath<T extends DrizzleTable> =
+	`${JsonColumnKey<T> & string}.${string}`;
+
 export type FilterOperator =
 	| 'eq'
 	| 'ne'
@@ -37,6 +138,29 @@ export type ColumnsSelection<T extends DrizzleTableWithId> = Partial<
 	Record<keyof T['$inferSelect'], boolean>
 >;
 
+export type ColumnsParams<T extends DrizzleTableWithId> = {
+	/**
+	 * Narrows the selected (or returned) columns, like the relational query API:
+	 * only the `true` columns, or every column except the `false` ones.
+	 */
+	columns?: ColumnsSelection<T>;
+};
+
+type KeysWithValue<TColumns, TValue> = {
+	[K in keyof TColumns]-?: Exclude<TColumns[K], undefined> extends TValue
+		? K
+		: never;
+}[keyof TColumns];
+
+/**
+ * The row type left after applying a columns selection.
+ */
+export type SelectedColumns<TRow, TColumns> = TColumns extends object
+	? [KeysWithValue<TColumns, true>] extends [never]
+		? Omit<TRow, KeysWithValue<TColumns, false>>
+		: Pick<TRow, KeysWithValue<TColumns, true> & keyof TRow>
+	: TRow;
+
 export type SoftDeleteConfig<T extends DrizzleTable> = {
 	field: keyof T['$inferSelect']; // e.g., 'deletedAt' or 'isDeleted'
 	deletedValue?: any; // What to set when soft deleting (defaults to new Date() for timestamps, true for booleans)
@@ -45,8 +169,16 @@ export type SoftDeleteConfig<T extends DrizzleTable> = {
 
 export type DrizzleCrudOptions = {
 	validation?: ValidationAdapter;
+	caseFold?: CaseFold;
 };
 
+/**
+ * The SQL function folding both sides of a case-insensitive comparison, by
+ * name or as a function building the expression.
+ * e.g., 'unicode_lower' or (value) => sql`lower(${value})`
+ */
+export type CaseFold = string | ((value: SQLWrapper) => SQL);
+
 export type CrudOperation =
 	| 'create'
 	| 'update'
@@ -57,7 +189,30 @@ export type CrudOperation =
 	| 'permanentDelete'
 	| 'bulkCreate'
 	| 'bulkDelete'
-	| 'bulkRestore';
+	| 'bulkRestore'
+	| 'aggregate'
+	| 'facets'
+	| 'distinct'
+	| 'iterate'
+	| 'import';
+
+export type SearchMode = 'contains' | 'prefix' | 'exact';
+
+export type FullTextSearchConfig<
+	T extends DrizzleTableWithId = DrizzleTableWithId,
+> = {
+	/**
+	 * The FTS5 virtual table indexing the searchFields, whose rowid is the id
+	 * of the row (see fullTextSearchTable).
+	 */
+	table: string;
+	/**
+	 * The columns of the FTS5 table, in their order, which the searchWeights
+	 * are mapped onto. Pass the `fields` returned by fullTextSearchTable().
+	 * @default searchFields
+	 */
+	fields?: (keyof T['$inferSelect'])[];
+};
 
 export type CrudOptions<
 	TDatabase extends DrizzleDatabase,
@@ -65,7 +220,36 @@ export type CrudOptions<
 	TActor extends Actor = Actor,
 	TScopeFilters extends ScopeFilters<T, TActor> = ScopeFilters<T, TActor>,
 > = {
-	searchFields?: (keyof T['$inferSelect'])[];
+	/**
+	 * The fields matched by the search parameter. Related fields can be
+	 * searched through their relation, e.g. ['title', 'author.name'].
+	 */
+	searchFields?: SearchField<TDatabase, T>[];
+	/**
+	 * How the search term is matched against the searchFields (case-insensitive):
+	 * - 'contains': anywhere in the value (default)
+	 * - 'prefix': at the start of the value
+	 * - 'exact': the whole value
+	 * @default 'contains'
+	 */
+	searchMode?: SearchMode;
+	/**
+	 * How much a match on each of the searchFields adds to the `$relevance`
+	 * score. With full-text search, these are the bm25 column weights.
+	 * e.g., { title: 3, content: 1 }
+	 * @default 1 per field
+	 */
+	searchWeights?: Partial<Record<SearchField<TDatabase, T>, number>>;
+	/**
+	 * The order used by list() when none is given.
+	 * e.g., [{ field: 'createdAt', direction: 'desc' }]
+	 */
+	defaultOrderBy?: ListOrderBy<T, TDatabase>[];
+	/**
+	 * Search with an FTS5 table (MATCH) instead of LIKE on the searchFields.
+	 * e.g., { table: 'posts_fts' }
+	 */
+	fullTextSearch?: FullTextSearchConfig<T>;
 	/**
 	 * The default page size (items per page).
 	 * @default 20
@@ -76,11 +260,34 @@ export type CrudOptions<
 	 * @default 100
 	 */
 	maxPageSize?: number;
+	/**
+	 * How long (in ms) a total is reused by list() with `count: 'estimated'`.
+	 * @default 60000
+	 */
+	countCacheTtl?: number;
 	/**
 	 * The allowed fields to be used in the filters parameter.
 	 * e.g., ['name', 'email']
 	 */
 	allowedFilters?: (keyof T['$inferSelect'])[];
+	/**
+	 * Paths inside JSON columns that can be filtered and sorted by, as
+	 * `column.key.subkey`. Any other path is rejected.
+	 * e.g., ['metadata.seo.score']
+	 */
+	allowedJsonPaths?: JsonPath<T>[];
+	/**
+	 * The relations that can be filtered with some/every/none. The related
+	 * filters obey the allowedFilters of the related table's crud.
+	 * e.g., ['posts']
+	 */
+	allowedRelationFilters?: (keyof Relations<TDatabase, T> & string)[];
+	/**
+	 * The clock relative date filters (`within`, `olderThan`, `period`) are
+	 * resolved against, e.g. a fixed date in tests.
+	 * @default () => new Date()
+	 */
+	clock?: () => Date;
 	/**
 	 * Enable soft delete for the table.
 	 * e.g., { field: 'deletedAt', deletedValue: new Date(), notDeletedValue: null }
@@ -109,18 +316,297 @@ export type CrudOptions<
 	 * Validation adapter is used to validate the data.
 	 */
 	validation?: ValidationAdapter<T>;
+	/**
+	 * Folds the case of search and the i* operators. SQLite's lower() only
+	 * folds ASCII letters: name the lower() of the ICU extension or a function
+	 * registered on the connection to fold Unicode text.
+	 * @default 'lower'
+	 */
+	caseFold?: CaseFold;
+};
+
+/**
+ * Options of every crud created by the same factory, keyed by table (the last
+ * crud created for a table wins). Used to apply a related table's own config
+ * (e.g. soft delete) across relations.
+ */
+export type CrudRegistry = Map<DrizzleTable, CrudOptions<any, any, any, any>>;
+
+/**
+ * What parseFilters needs besides the allowlists: the database and the crud
+ * registry for relation filters, the clock relative dates resolve against and
+ * the case fold of the i* operators.
+ */
+export type FilterContext = {
+	db?: DrizzleDatabase;
+	registry?: CrudRegistry;
+	allowedRelationFilters?: string[];
+	/**
+	 * @default () => new Date()
+	 */
+	clock?: () => Date;
+	/**
+	 * @default 'lower'
+	 */
+	caseFold?: CaseFold;
 };
 
-export type ListParams<T extends DrizzleTableWithId> = {
+export type ListParams<
+	T extends DrizzleTableWithId,
+	TDatabase extends DrizzleDatabase = DrizzleDatabase,
+> = {
 	page?: number;
 	perPage?: number;
 	search?: string;
+	/**
+	 * Overrides the searchMode of the crud for this call.
+	 */
+	searchMode?: SearchMode;
+	filters?: FilterParams<
+		T['$inferSelect'],
+		RelationFilters<TDatabase, T['_']['name']>
+	>;
+	/**
+	 * Defaults to the defaultOrderBy of the crud. `id` is always added last as
+	 * a tie-breaker, so pages are stable.
+	 */
+	orderBy?: ListOrderBy<T, TDatabase>[];
+	includeDeleted?: boolean;
+	/**
+	 * How totalItems/totalPages are computed in page mode:
+	 * - 'exact': runs a count query on every call (default)
+	 * - 'estimated': reuses a recent count of the same query (see countCacheTtl)
+	 * - 'none': skips the count, totalItems/totalPages are left out
+	 */
+	count?: CountStrategy;
+} & CursorParams &
+	ColumnsParams<T>;
+
+export type AggregateFunction =
+	| 'count'
+	| 'countDistinct'
+	| 'sum'
+	| 'avg'
+	| 'min'
+	| 'max';
+
+export type AggregateMetric<T extends DrizzleTableWithId> =
+	| {
+			fn: 'count';
+			/**
+			 * Counts the non-null values of a column instead of every row.
+			 */
+			field?: keyof T['$inferSelect'];
+	  }
+	| {
+			fn: Exclude<AggregateFunction, 'count'>;
+			field: keyof T['$inferSelect'];
+	  };
+
+export type AggregateMetricValue<TRow, TMetric> = TMetric extends {
+	fn: 'count' | 'countDistinct';
+}
+	? number
+	: TMetric extends { fn: 'min' | 'max'; field: infer F extends keyof TRow }
+		? NonNullable<TRow[F]> | null
+		: number | null;
+
+export type AggregateParams<
+	T extends DrizzleTableWithId,
+	TGroupBy extends keyof T['$inferSelect'] = keyof T['$inferSelect'],
+	TMetrics extends Record<string, AggregateMetric<T>> = Record<
+		string,
+		AggregateMetric<T>
+	>,
+> = {
+	groupBy?: TGroupBy[];
+	metrics: TMetrics;
+	search?: string;
 	filters?: FilterParams<T['$inferSelect']>;
+	includeDeleted?: boolean;
+	/**
+	 * Filters the groups by their metrics, e.g. { total: { gte: 10 } }.
+	 */
+	having?: {
+		[K in keyof TMetrics]?:
+			| AggregateMetricValue<T['$inferSelect'], TMetrics[K]>
+			| Filter<
+					NonNullable<AggregateMetricValue<T['$inferSelect'], TMetrics[K]>>
+			  >;
+	};
 	orderBy?: {
-		field: keyof T['$inferSelect'];
+		field: NoInfer<TGroupBy | keyof TMetrics>;
 		direction: 'asc' | 'desc';
 	}[];
+	limit?: number;
+};
+
+export type AggregateResult<TRow, TGroupBy extends keyof TRow, TMetrics> = Pick<
+	TRow,
+	TGroupBy
+> & {
+	[K in keyof TMetrics]: AggregateMetricValue<TRow, TMetrics[K]>;
+};
+
+export type IterateParams<T extends DrizzleTableWithId> = {
+	search?: string;
+	filters?: FilterParams<T['$inferSelect']>;
 	includeDeleted?: boolean;
+	/**
+	 * The number of rows fetched per query.
+	 * @default maxPageSize
+	 */
+	batchSize?: number;
+} & ColumnsParams<T>;
+
+export type ExportFormat = 'csv' | 'ndjson' | 'json';
+
+export type ExportParams<T extends DrizzleTableWithId> = Omit<
+	IterateParams<T>,
+	'columns'
+>;
+
+export type ExportOptions<
+	T extends DrizzleTableWithId,
+	TField extends keyof T['$inferSelect'] = keyof T['$inferSelect'],
+> = {
+	format: ExportFormat;
+	/**
+	 * The columns to export, in order. Defaults to every column of the table.
+	 */
+	columns?: TField[];
+	/**
+	 * CSV header labels, the field names by default.
+	 */
+	headers?: Partial<Record<TField, string>>;
+	/**
+	 * Per-column serialization overrides. By default dates are written as ISO
+	 * strings and JSON columns as JSON text in CSV.
+	 */
+	formatters?: {
+		[K in TField]?: (
+			value: T['$inferSelect'][K],
+			row: Pick<T['$inferSelect'], TField>,
+		) => unknown;
+	};
+	/**
+	 * Prefixes CSV text cells starting with `=`, `+`, `-`, `@`, a tab or a
+	 * carriage return with `'`, so spreadsheets don't run them as formulas.
+	 * @default true
+	 */
+	escapeFormulas?: boolean;
+};
+
+export type ImportFormat = 'csv' | 'ndjson';
+
+/**
+ * The text to import, whole or as chunks, e.g. a file or request body stream.
+ */
+export type ImportSource =
+	| string
+	| Iterable<string | Uint8Array>
+	| AsyncIterable<string | Uint8Array>;
+
+export type ImportOptions<T extends DrizzleTableWithId> = {
+	format: ImportFormat;
+	/**
+	 * 'upsert' updates the existing row when `conflictTarget` already exists.
+	 * @default 'insert'
+	 */
+	mode?: 'insert' | 'upsert';
+	/**
+	 * The unique column identifying existing rows in 'upsert' mode.
+	 * @default 'id'
+	 */
+	conflictTarget?: keyof T['$inferSelect'];
+	/**
+	 * The number of rows written per statement.
+	 * @default 100
+	 */
+	batchSize?: number;
+};
+
+export type ImportRowResult<TId = unknown> =
+	| { row: number; success: true; id: TId }
+	| {
+			row: number;
+			success: false;
+			issues: ReadonlyArray<StandardSchemaV1.Issue>;
+	  };
+
+export type ImportReport<TId = unknown> = {
+	total: number;
+	succeeded: number;
+	failed: number;
+	/**
+	 * One entry per record, in order. `row` is the 1-based record number,
+	 * not counting the CSV header.
+	 */
+	rows: ImportRowResult<TId>[];
+};
+
+export type FacetsParams<
+	T extends DrizzleTableWithId,
+	TField extends keyof T['$inferSelect'] = keyof T['$inferSelect'],
+> = {
+	/**
+	 * The fields to count values of, limited to allowedFilters.
+	 */
+	fields: TField[];
+	search?: string;
+	filters?: FilterParams<T['$inferSelect']>;
+	includeDeleted?: boolean;
+	/**
+	 * The maximum number of values returned per field, most frequent first.
+	 */
+	limit?: number;
+};
+
+export type FacetValue<TValue> = {
+	value: TValue;
+	count: number;
+};
+
+export type FacetsResult<TRow, TField extends keyof TRow> = {
+	[K in TField]: FacetValue<TRow[K]>[];
+};
+
+export type DistinctParams<T extends DrizzleTableWithId> = {
+	search?: string;
+	filters?: FilterParams<T['$inferSelect']>;
+	includeDeleted?: boolean;
+	/**
+	 * The maximum number of values per page. Defaults to the defaultPageSize of
+	 * the crud, and is capped at its maxPageSize.
+	 */
+	limit?: number;
+	/**
+	 * Cursor token (nextCursor) of the page to continue after.
+	 */
+	after?: string;
+};
+
+export type DistinctResult<TValue> = {
+	/**
+	 * Sorted ascending, with NULL last.
+	 */
+	values: TValue[];
+	nextCursor: string | null;
+};
+
+export type CursorParams = {
+	/**
+	 * Use keyset pagination instead of page/offset, starting from the first page.
+	 */
+	cursor?: boolean;
+	/**
+	 * Cursor token (nextCursor) of the page to continue after.
+	 */
+	after?: string;
+	/**
+	 * Cursor token (prevCursor) of the page to continue before.
+	 */
+	before?: string;
 };
 
 export type FindByIdParams = {
@@ -164,47 +650,265 @@ export type OperationContext<
 	skipValidation?: boolean;
 };
 
+/**
+ * The context of create(), update() and bulkCreate(), which also narrows the
+ * returned rows with `columns`.
+ */
+export type MutationContext<
+	TDatabase extends DrizzleDatabase,
+	T extends DrizzleTableWithId,
+	TActor extends Actor = Actor,
+	TScopeFilters extends ScopeFilters<T, TActor> = ScopeFilters<T, TActor>,
+	TColumns extends ColumnsSelection<T> | undefined = undefined,
+> = OperationContext<TDatabase, T, TActor, TScopeFilters> & {
+	columns?: TColumns;
+};
+
 export type PaginationParams = {
 	page?: number;
 	perPage?: number;
 };
 
-export type PaginatedResponse<T> = {
+export type CountStrategy = 'exact' | 'estimated' | 'none';
+
+type PageResults<T> = {
 	hasNextPage: boolean;
 	hasPreviousPage: boolean;
 	page: number;
 	perPage: number;
 	results: T[];
-	totalItems: number;
-	totalPages: number;
 };
 
+export type PaginatedResponse<
+	T,
+	TCount extends CountStrategy = 'exact',
+> = TCount extends 'none'
+	? PageResults<T>
+	: PageResults<T> & {
+			totalItems: number;
+			totalPages: number;
+		};
+
+export type CursorPaginatedResponse<T> = {
+	hasNextPage: boolean;
+	hasPreviousPage: boolean;
+	perPage: number;
+	results: T[];
+	nextCursor: string | null;
+	prevCursor: string | null;
+};
+
+export type ListResponse<TParams, TResult> = TParams extends
+	| { cursor: true }
+	| { after: unknown }
+	| { before: unknown }
+	? CursorPaginatedResponse<TResult>
+	: PaginatedResponse<
+			TResult,
+			TParams extends { count: infer TCount extends CountStrategy }
+				? TCount
+				: 'exact'
+		>;
+
 export type OrderByParams<T extends DrizzleTable> = {
 	field: keyof T['$inferSelect'];
 	direction: 'asc' | 'desc';
+	/**
+	 * Where NULL values are placed, whatever the direction. SQLite puts them
+	 * first on 'asc' and last on 'desc' by default.
+	 */
+	nulls?: 'first' | 'last';
+};
+
+export type ListOrderBy<
+	T extends DrizzleTableWithId,
+	TDatabase extends DrizzleDatabase = DrizzleDatabase,
+> = Omit<OrderByParams<T>, 'field'> & {
+	/**
+	 * A column, a column of a to-one relation ('author.name'), or `$relevance`
+	 * to sort by how well the rows match the search (most relevant first on
+	 * 'desc').
+	 */
+	field:
+		| keyof T['$inferSelect']
+		| RelationFieldPath<TDatabase, T, 'one'>
+		| JsonPath<T>
+		| '$relevance';
 };
 
+export type RangeBounds = '[]' | '[)' | '(]' | '()';
+
+/**
+ * A duration back from now: a number and a unit, seconds (s), minutes (m),
+ * hours (h), days (d) or weeks (w). e.g., '7d'
+ */
+export type RelativeDuration = `${number}${'s' | 'm' | 'h' | 'd' | 'w'}`;
+
+/**
+ * A calendar period around now. Weeks start on Monday.
+ */
+export type DatePeriod =
+	| 'today'
+	| 'yesterday'
+	| 'thisWeek'
+	| 'lastWeek'
+	| 'thisMonth'
+	| 'lastMonth'
+	| 'thisYear'
+	| 'lastYear';
+
+/**
+ * Dates can also be given as ISO strings or epoch milliseconds, e.g. from JSON.
+ */
+type FilterInput<T> = T extends Date ? T | string | number : T;
+
+type JsonArrayElement<T> = NonNullable<T> extends readonly (infer TElement)[]
+	? TElement
+	: unknown;
+
 export type Filter<T = any> = {
-	equals?: T;
-	not?: T;
-	gt?: T;
-	gte?: T;
-	lt?: T;
-	lte?: T;
-	in?: T[];
-	notIn?: T[];
+	equals?: FilterInput<T>;
+	not?: FilterInput<T>;
+	gt?: FilterInput<T>;
+	gte?: FilterInput<T>;
+	lt?: FilterInput<T>;
+	lte?: FilterInput<T>;
+	in?: FilterInput<T>[];
+	notIn?: FilterInput<T>[];
+	/**
+	 * Within a range, bounds included unless `bounds` says otherwise. A null
+	 * bound leaves that side open.
+	 */
+	between?: [FilterInput<T> | null, FilterInput<T> | null];
+	/**
+	 * Outside a range, the opposite of `between` with the same `bounds`.
+	 */
+	notBetween?: [FilterInput<T> | null, FilterInput<T> | null];
+	/**
+	 * Inclusivity of the `between` / `notBetween` bounds, as in interval
+	 * notation: '[)' includes the lower bound and excludes the upper one.
+	 * @default '[]'
+	 */
+	bounds?: RangeBounds;
 	like?: string;
 	ilike?: string;
 	notLike?: string;
+	/**
+	 * Matches the start, end or any part of the value. `%` and `_` in the value
+	 * are matched literally, and the case must match.
+	 */
+	startsWith?: string;
+	endsWith?: string;
+	contains?: string;
+	/**
+	 * Case-insensitive variants of startsWith, endsWith and contains.
+	 */
+	istartsWith?: string;
+	iendsWith?: string;
+	icontains?: string;
+	/**
+	 * JSON array containment: the array holds the value.
+	 */
+	has?: JsonArrayElement<T>;
+	/**
+	 * The array holds at least one of the values.
+	 */
+	hasAny?: JsonArrayElement<T>[];
+	/**
+	 * The array holds every value.
+	 */
+	hasAll?: JsonArrayElement<T>[];
+	/**
+	 * The array holds none of the values, a NULL array included.
+	 */
+	hasNone?: JsonArrayElement<T>[];
+	/**
+	 * `true` matches NULL values, `false` non-NULL ones.
+	 */
+	isNull?: boolean;
+	/**
+	 * `true` matches non-NULL values, `false` NULL ones.
+	 */
+	isNotNull?: boolean;
+	/**
+	 * Between the duration ago and now, e.g. '7d' for the last 7 days.
+	 */
+	within?: RelativeDuration;
+	/**
+	 * Before the duration ago, e.g. '30d'.
+	 */
+	olderThan?: RelativeDuration;
+	/**
+	 * Within a calendar period, e.g. 'thisMonth', in the `tz` time zone.
+	 */
+	period?: DatePeriod;
+	/**
+	 * IANA time zone of `period`, e.g. 'Europe/Lisbon'.
+	 * @default 'UTC'
+	 */
+	tz?: string;
 };
 
-export type FilterParams<T extends Record<string, any>> = {
-	[K in keyof T]?: T[K] | Filter<T[K]>;
-} & {
-	AND?: FilterParams<T>[];
-	OR?: FilterParams<T>[];
+/**
+ * The keys of a row holding JSON, i.e. anything but a scalar.
+ */
+type JsonKey<TRow> = {
+	[K in keyof TRow]: NonNullable<TRow[K]> extends
+		| string
+		| number
+		| boolean
+		| bigint
+		| Date
+		? never
+		: K;
+}[keyof TRow];
+
+/**
+ * Filters a path inside a JSON column, e.g. `{ metadata: { path: '$.seo.score', gte: 50 } }`.
+ */
+export type JsonPathFilter = Filter & { path: `$.${string}` };
+
+/**
+ * Filters rows by their related rows, e.g. `{ posts: { some: { status: 'published' } } }`.
+ * Several quantifiers are combined with AND.
+ */
+export type RelationFilter<
+	TFilters = FilterParams<Record<string, any>, Record<string, any>>,
+> = {
+	/**
+	 * At least one related row matches.
+	 */
+	some?: TFilters;
+	/**
+	 * Every related row matches, which also holds without related rows.
+	 */
+	every?: TFilters;
+	/**
+	 * No related row matches.
+	 */
+	none?: TFilters;
 };
 
+export type FilterParams<
+	T extends Record<string, any>,
+	TRelationFilters extends Record<string, any> = Record<never, never>,
+> = {
+	[K in keyof T]?:
+		| FilterInput<T[K]>
+		| Filter<T[K]>
+		| (K extends JsonKey<T> ? JsonPathFilter : never);
+} & {
+	[K in `${JsonKey<T> & string}.${string}`]?: unknown;
+} & TRelationFilters & {
+		AND?: FilterParams<T, TRelationFilters>[];
+		OR?: FilterParams<T, TRelationFilters>[];
+		/**
+		 * Matches the rows the group does not. A row where the group compares with
+		 * NULL matches neither the group nor its NOT.
+		 */
+		NOT?: FilterParams<T, TRelationFilters>;
+	};
+
 export interface ValidationAdapter<
 	T extends DrizzleTableWithId = DrizzleTableWithId,
 > {
@@ -241,9 +945,15 @@ export interface PaginationOptions {
 }
 
 export interface ListSchemaOptions<T extends DrizzleTable> {
-	searchFields?: (keyof T['$inferSelect'])[];
+	searchFields?: (keyof T['$inferSelect'] | `${string}.${string}`)[];
 	allowedFilters?: (keyof T['$inferSelect'])[];
 	allowedOrderFields?: (keyof T['$inferSelect'])[];
+	/**
+	 * The columns of to-one relations that can be sorted by, e.g. 'author.name'.
+	 */
+	relationOrderFields?: string[];
+	allowedJsonPaths?: string[];
+	allowedRelationFilters?: string[];
 	defaultPageSize?: number;
 	maxPageSize?: number;
 	allowIncludeDeleted?: boolean;
@@ -124,15 +124,27 @@ export function createDefaultIdSchema<T extends DrizzleTableWithId>(table: T) {
 }
 
 export function createDefaultFilterSchema<T extends DrizzleTable>(
-	allowedFilters?: (keyof T['$inferSelect'])[],
+	allowedFilters: (keyof T['$inferSelect'])[] = [],
+	allowedJsonPaths: string[] = [],
+	allowedRelationFilters: string[] = [],
 ) {
-	if (!allowedFilters || allowedFilters.length === 0) {
+	// A JSON path is filtered as 'metadata.seo.score' or on its column with `path`
+	const fields = [
+		...new Set([
+			...(allowedFilters as string[]),
+			...allowedJsonPaths,
+			...allowedJsonPaths.map((path) => path.split('.')[0]),
+		]),
+	];
+
+	if (fields.length === 0 && allowedRelationFilters.length === 0) {
 		return z.record(z.never(), z.never()).optional();
 	}
 
 	const filterValueSchema = z.union([
 		z.any(), // Direct value
 		z.object({
+			path: z.string().optional(),
 			equals: z.any().optional(),
 			not: z.any().optional(),
 			gt: z.any().optional(),
@@ -141,42 +153,93 @@ export function createDefaultFilterSchema<T extends DrizzleTable>(
 			lte: z.any().optional(),
 			in: z.array(z.any()).optional(),
 			notIn: z.array(z.any()).optional(),
+			between: z.tuple([z.any(), z.any()]).optional(),
+			notBetween: z.tuple([z.any(), z.any()]).optional(),
+			bounds: z.enum(['[]', '[)', '(]', '()']).optional(),
 			like: z.string().optional(),
 			ilike: z.string().optional(),
 			notLike: z.string().optional(),
+			startsWith: z.string().optional(),
+			endsWith: z.string().optional(),
+			contains: z.string().optional(),
+			istartsWith: z.string().optional(),
+			iendsWith: z.string().optional(),
+			icontains: z.string().optional(),
+			has: z.any().optional(),
+			hasAny: z.array(z.any()).optional(),
+			hasAll: z.array(z.any()).optional(),
+			hasNone: z.array(z.any()).optional(),
+			isNull: z.boolean().optional(),
+			isNotNull: z.boolean().optional(),
+			within: z.string().optional(),
+			olderThan: z.string().optional(),
+			period: z
+				.enum([
+					'today',
+					'yesterday',
+					'thisWeek',
+					'lastWeek',
+					'thisMonth',
+					'lastMonth',
+					'thisYear',
+					'lastYear',
+				])
+				.optional(),
+			tz: z.string().optional(),
 		}),
 	]);
 
-	const singleFilterSchema = z.object(
-		Object.fromEntries(
-			allowedFilters.map((field) => [
-				field as string,
-				filterValueSchema.optional(),
+	// The related filters are checked against the related crud's allowlist
+	// when the filters are parsed
+	const relatedFiltersSchema = z.record(z.string(), z.any()).optional();
+	const relationFilterSchema = z.object({
+		some: relatedFiltersSchema,
+		every: relatedFiltersSchema,
+		none: relatedFiltersSchema,
+	});
+
+	const singleFilterSchema = z.object({
+		...Object.fromEntries(
+			fields.map((field) => [field, filterValueSchema.optional()]),
+		),
+		...Object.fromEntries(
+			allowedRelationFilters.map((relation) => [
+				relation,
+				relationFilterSchema.optional(),
 			]),
 		),
-	);
+	});
 
-	// Create a schema that allows AND/OR with the single filter schema
-	const filterWithLogicalOperators = singleFilterSchema.extend({
-		AND: z.array(singleFilterSchema).optional(),
-		OR: z.array(singleFilterSchema).optional(),
+	// AND/OR/NOT groups take the same schema, nested to any depth
+	const filterTreeSchema = singleFilterSchema.extend({
+		get AND() {
+			return z.array(filterTreeSchema).optional();
+		},
+		get OR() {
+			return z.array(filterTreeSchema).optional();
+		},
+		get NOT() {
+			return filterTreeSchema.optional();
+		},
 	});
 
-	return filterWithLogicalOperators.optional();
+	return filterTreeSchema.optional();
 }
 
 export function createDefaultOrderBySchema<T extends DrizzleTable>(
 	table: T,
 	allowedFields?: (keyof T['$inferSelect'])[],
+	extraFields: string[] = [],
 ) {
 	const tableFields = Object.keys(table) as (keyof T['$inferSelect'])[];
-	const validFields = allowedFields || tableFields;
+	const validFields = [...(allowedFields || tableFields), ...extraFields];
 
 	return z
 		.array(
 			z.object({
 				field: z.enum(validFields as [string, ...string[]]),
 				direction: z.enum(['asc', 'desc']).default('asc'),
+				nulls: z.enum(['first', 'last']).optional(),
 			}),
 		)
 		.optional();
@@ -190,6 +253,9 @@ export function createDefaultListSchema<T extends DrizzleTable>(
 		searchFields,
 		allowedFilters,
 		allowedOrderFields,
+		relationOrderFields = [],
+		allowedJsonPaths = [],
+		allowedRelationFilters = [],
 		defaultPageSize = 20,
 		maxPageSize = 100,
 		allowIncludeDeleted = false,
@@ -199,8 +265,16 @@ export function createDefaultListSchema<T extends DrizzleTable>(
 		defaultPageSize,
 		maxPageSize,
 	});
-	const orderBySchema = createDefaultOrderBySchema(table, allowedOrderFields);
-	const filterSchema = createDefaultFilterSchema(allowedFilters);
+	const orderBySchema = createDefaultOrderBySchema(table, allowedOrderFields, [
+		...relationOrderFields,
+		...allowedJsonPaths,
+		...(searchFields && searchFields.length > 0 ? ['$relevance'] : []),
+	]);
+	const filterSchema = createDefaultFilterSchema(
+		allowedFilters,
+		allowedJsonPaths,
+		allowedRelationFilters,
+	);
 
 	const searchSchema =
 		searchFields && searchFields.length > 0
@@ -210,8 +284,13 @@ export function createDefaultListSchema<T extends DrizzleTable>(
 	const baseSchema = z.object({
 		...paginationSchema.shape,
 		search: searchSchema,
+		searchMode: z.enum(['contains', 'prefix', 'exact']).optional(),
 		filters: filterSchema,
 		orderBy: orderBySchema,
+		count: z.enum(['exact', 'estimated', 'none']).optional(),
+		cursor: z.boolean().optional(),
+		after: z.string().optional(),
+		before: z.string().optional(),
 	});
 
 	if (allowIncludeDeleted) {
@@ -0,0 +1,372 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { db } from '../exemples/client';
+import { comments, posts, users } from '../exemples/schema';
+import { drizzleCrud, ValidationError } from '../src/index';
+import { zod } from '../src/zod';
+
+const crud = drizzleCrud(db, { validation: zod() });
+
+const usersCrud = crud(users, {
+	searchFields: ['name'],
+	allowedFilters: ['role', 'status'],
+	softDelete: {
+		field: 'deletedAt',
+		deletedValue: new Date(),
+		notDeletedValue: null,
+	},
+});
+
+const postsCrud = crud(posts, {
+	searchFields: ['title'],
+	allowedFilters: ['status', 'authorId'],
+	scopeFilters: {
+		authorId: (value) => (value ? eq(posts.authorId, value) : undefined),
+	},
+});
+
+describe('aggregate()', () => {
+	let authorId: number;
+	let otherAuthorId: number;
+
+	beforeAll(async () => {
+		await db.delete(comments);
+		await db.delete(posts);
+		await db.delete(users);
+
+		const author = await usersCrud.create({
+			email: 'author@aggregate.com',
+			name: 'Author',
+			role: 'editor',
+		});
+		const other = await usersCrud.create({
+			email: 'other@aggregate.com',
+			name: 'Other',
+			role: 'editor',
+		});
+		const viewer = await usersCrud.create({
+			email: 'viewer@aggregate.com',
+			name: 'Viewer',
+			role: 'viewer',
+		});
+		const deleted = await usersCrud.create({
+			email: 'deleted@aggregate.com',
+			name: 'Deleted',
+			role: 'viewer',
+		});
+		authorId = author.id;
+		otherAuthorId = other.id;
+
+		await usersCrud.deleteOne(deleted.id);
+
+		const rows = [
+			{ status: 'published', viewCount: 10, authorId: author.id },
+			{ status: 'published', viewCount: 30, authorId: author.id },
+			{ status: 'draft', viewCount: 0, authorId: author.id },
+			{ status: 'published', viewCount: 5, authorId: other.id },
+			{ status: 'archived', viewCount: 1, authorId: viewer.id },
+		] as const;
+
+		for (const [index, row] of rows.entries()) {
+			await postsCrud.create({
+				...row,
+				title: `Post ${index}`,
+				slug: `aggregate-post-${index}`,
+				content: 'Lorem ipsum',
+			});
+		}
+	});
+
+	afterAll(async () => {
+		await db.delete(posts);
+		await db.delete(users);
+	});
+
+	test('counts rows per group', async () => {
+		const result = await postsCrud.aggregate({
+			groupBy: ['status'],
+			metrics: { total: { fn: 'count' } },
+			orderBy: [{ field: 'status', direction: 'asc' }],
+		});
+
+		expect(result).toEqual([
+			{ status: 'archived', total: 1 },
+			{ status: 'draft', total: 1 },
+			{ status: 'published', total: 3 },
+		]);
+	});
+
+	test('computes sum, avg, min and max', async () => {
+		const [row] = await postsCrud.aggregate({
+			metrics: {
+				views: { fn: 'sum', field: 'viewCount' },
+				average: { fn: 'avg', field: 'viewCount' },
+				lowest: { fn: 'min', field: 'viewCount' },
+				highest: { fn: 'max', field: 'viewCount' },
+				authors: { fn: 'countDistinct', field: 'authorId' },
+			},
+		});
+
+		expect(row).toEqual({
+			views: 46,
+			average: 9.2,
+			lowest: 0,
+			highest: 30,
+			authors: 3,
+		});
+	});
+
+	test('keeps the column type of min and max', async () => {
+		const [row] = await usersCrud.aggregate({
+			metrics: { first: { fn: 'min', field: 'createdAt' } },
+		});
+
+		expect(row.first).toBeInstanceOf(Date);
+	});
+
+	test('applies filters and search before grouping', async () => {
+		const result = await postsCrud.aggregate({
+			groupBy: ['authorId'],
+			metrics: { views: { fn: 'sum', field: 'viewCount' } },
+			filters: { status: 'published' },
+			search: 'Post',
+			orderBy: [{ field: 'views', direction: 'desc' }],
+		});
+
+		expect(result).toEqual([
+			{ authorId, views: 40 },
+			{ authorId: otherAuthorId, views: 5 },
+		]);
+	});
+
+	test('filters groups with having', async () => {
+		const result = await postsCrud.aggregate({
+			groupBy: ['authorId'],
+			metrics: { total: { fn: 'count' } },
+			having: { total: { gte: 2 } },
+		});
+
+		expect(result).toEqual([{ authorId, total: 3 }]);
+	});
+
+	test('applies scope filters', async () => {
+		const result = await postsCrud.aggregate(
+			{ groupBy: ['status'], metrics: { total: { fn: 'count' } } },
+			{ scope: { authorId: otherAuthorId } },
+		);
+
+		expect(result).toEqual([{ status: 'published', total: 1 }]);
+	});
+
+	test('excludes soft deleted rows unless includeDeleted', async () => {
+		const active = await usersCrud.aggregate({
+			groupBy: ['role'],
+			metrics: { total: { fn: 'count' } },
+			orderBy: [{ field: 'role', direction: 'asc' }],
+		});
+
+		expect(active).toEqual([
+			{ role: 'editor', total: 2 },
+			{ role: 'viewer', total: 1 },
+		]);
+
+		const all = await usersCrud.aggregate({
+			groupBy: ['role'],
+			metrics: { total: { fn: 'count' } },
+			includeDeleted: true,
+			orderBy: [{ field: 'role', direction: 'asc' }],
+		});
+
+		expect(all).toEqual([
+			{ role: 'editor', total: 2 },
+			{ role: 'viewer', total: 2 },
+		]);
+	});
+
+	test('types the rows from groupBy and metrics', async () => {
+		const [row] = await postsCrud.aggregate({
+			groupBy: ['status'],
+			metrics: { total: { fn: 'count' } },
+		});
+
+		const status: 'draft' | 'published' | 'archived' = row.status;
+		const total: number = row.total;
+		expect([status, total]).toBeDefined();
+
+		// @ts-expect-error title is not grouped
+		expect(row.title).toBeUndefined();
+	});
+
+	test('rejects unknown metrics in having', async () => {
+		await expect(
+			postsCrud.aggregate({
+				metrics: { total: { fn: 'count' } },
+				// @ts-expect-error views is not a metric
+				having: { views: 1 },
+			}),
+		).rejects.toThrow('Unknown metric "views" in having');
+	});
+
+	test('validates filters and search', async () => {
+		const operations: string[] = [];
+		const validatedCrud = crud(users, {
+			searchFields: ['name'],
+			allowedFilters: ['role'],
+			hooks: {
+				validate: ({ operation }) => {
+					operations.push(operation);
+					return true;
+				},
+			},
+		});
+
+		await validatedCrud.aggregate({ metrics: { total: { fn: 'count' } } });
+		await validatedCrud.facets({ fields: ['role'] });
+
+		expect(operations).toEqual(['aggregate', 'facets']);
+
+		await expect(
+			validatedCrud.aggregate({
+				metrics: { total: { fn: 'count' } },
+				// @ts-expect-error search is a string
+				search: 42,
+			}),
+		).rejects.toThrow(ValidationError);
+	});
+
+	describe('facets()', () => {
+		test('counts every value of each field', async () => {
+			const result = await postsCrud.facets({ fields: ['status'] });
+
+			expect(result.status).toEqual([
+				{ value: 'published', count: 3 },
+				{ value: 'archived', count: 1 },
+				{ value: 'draft', count: 1 },
+			]);
+		});
+
+		test('leaves out its own filter but applies the others', async () => {
+			const result = await postsCrud.facets({
+				fields: ['status', 'authorId'],
+				filters: { status: 'published', authorId },
+			});
+
+			expect(result.status).toEqual([
+				{ value: 'published', count: 2 },
+				{ value: 'draft', count: 1 },
+			]);
+			expect(result.authorId).toEqual([
+				{ value: authorId, count: 2 },
+				{ value: otherAuthorId, count: 1 },
+			]);
+		});
+
+		test('applies search and scope filters', async () => {
+			const result = await postsCrud.facets(
+				{ fields: ['status'], search: 'Post 1' },
+				{ scope: { authorId } },
+			);
+
+			expect(result.status).toEqual([{ value: 'published', count: 1 }]);
+		});
+
+		test('limits the values per field', async () => {
+			const result = await postsCrud.facets({ fields: ['status'], limit: 1 });
+
+			expect(result.status).toEqual([{ value: 'published', count: 3 }]);
+		});
+
+		test('only accepts allowed filters', async () => {
+			await expect(usersCrud.facets({ fields: ['name'] })).rejects.toThrow(
+				'Field "name" is not an allowed filter',
+			);
+		});
+	});
+
+	describe('distinct()', () => {
+		test('returns the sorted distinct values of a field', async () => {
+			const result = await postsCrud.distinct('status');
+
+			expect(result).toEqual({
+				values: ['archived', 'draft', 'published'],
+				nextCursor: null,
+			});
+		});
+
+		test('applies filters, search and scope filters', async () => {
+			const filtered = await postsCrud.distinct('status', {
+				filters: { authorId },
+			});
+			expect(filtered.values).toEqual(['draft', 'published']);
+
+			const searched = await postsCrud.distinct('status', {
+				search: 'Post 4',
+			});
+			expect(searched.values).toEqual(['archived']);
+
+			const scoped = await postsCrud.distinct(
+				'status',
+				{},
+				{ scope: { authorId: otherAuthorId } },
+			);
+			expect(scoped.values).toEqual(['published']);
+		});
+
+		test('excludes soft deleted rows unless includeDeleted', async () => {
+			const active = await usersCrud.distinct('role', { search: 'Deleted' });
+			expect(active.values).toEqual([]);
+
+			const all = await usersCrud.distinct('role', {
+				search: 'Deleted',
+				includeDeleted: true,
+			});
+			expect(all.values).toEqual(['viewer']);
+		});
+
+		test('paginates with a cursor', async () => {
+			const first = await postsCrud.distinct('status', { limit: 2 });
+			expect(first.values).toEqual(['archived', 'draft']);
+			expect(first.nextCursor).toBeString();
+
+			const second = await postsCrud.distinct('status', {
+				limit: 2,
+				after: first.nextCursor!,
+			});
+			expect(second).toEqual({ values: ['published'], nextCursor: null });
+		});
+
+		test('places NULL last and pages past it', async () => {
+			const biosCrud = crud(users, {
+				allowedFilters: ['bio'],
+				softDelete: {
+					field: 'deletedAt',
+					deletedValue: new Date(),
+					notDeletedValue: null,
+				},
+			});
+
+			await db
+				.update(users)
+				.set({ bio: 'Writes a lot' })
+				.where(eq(users.id, authorId));
+
+			const first = await biosCrud.distinct('bio', { limit: 1 });
+			expect(first.values).toEqual(['Writes a lot']);
+
+			const second = await biosCrud.distinct('bio', {
+				limit: 1,
+				after: first.nextCursor!,
+			});
+			expect(second).toEqual({ values: [null], nextCursor: null });
+		});
+
+		test('only accepts allowed filters and a positive limit', async () => {
+			await expect(usersCrud.distinct('name')).rejects.toThrow(
+				'Field "name" is not an allowed filter',
+			);
+			await expect(postsCrud.distinct('status', { limit: 0 })).rejects.toThrow(
+				'limit must be a positive integer',
+			);
+		});
+	});
+});
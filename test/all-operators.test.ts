@@ -1,4 +1,5 @@
 import { beforeAll, describe, expect, test } from 'bun:test';
+import { eq, sql } from 'drizzle-orm';
 import { db } from '../exemples/client';
 import { users } from '../exemples/schema';
 import { drizzleCrud } from '../src/index';
@@ -14,6 +15,12 @@ const usersCrud = crud(users, {
 	defaultPageSize: 10,
 });
 
+// Folds É like the lower() of the ICU extension would
+const unicodeCrud = crud(users, {
+	allowedFilters: ['name'],
+	caseFold: (value) => sql`lower(replace(${value}, 'É', 'é'))`,
+});
+
 describe('COMPLETE OPERATOR TESTS - ALL CASES', () => {
 	beforeAll(async () => {
 		// Clean up
@@ -210,6 +217,127 @@ describe('COMPLETE OPERATOR TESTS - ALL CASES', () => {
 		});
 	});
 
+	describe('BETWEEN/NOT BETWEEN operators', () => {
+		const count = async (filters: Parameters<typeof usersCrud.list>[0]) =>
+			(await usersCrud.list(filters)).totalItems;
+
+		test('between - inclusive by default', async () => {
+			expect(
+				await count({ filters: { role: { between: ['admin', 'editor'] } } }),
+			).toBe(4); // admin + editor
+		});
+
+		test('between - exclusive bounds', async () => {
+			expect(
+				await count({
+					filters: { role: { between: ['admin', 'editor'], bounds: '[)' } },
+				}),
+			).toBe(2); // admin only
+
+			expect(
+				await count({
+					filters: { role: { between: ['admin', 'viewer'], bounds: '()' } },
+				}),
+			).toBe(2); // editor only
+		});
+
+		test('between - open-ended with a null bound', async () => {
+			expect(
+				await count({ filters: { role: { between: ['editor', null] } } }),
+			).toBe(5); // editor + viewer
+
+			expect(
+				await count({
+					filters: { role: { between: [null, 'editor'], bounds: '[)' } },
+				}),
+			).toBe(2); // admin
+		});
+
+		test('notBetween - outside the range', async () => {
+			expect(
+				await count({ filters: { role: { notBetween: ['admin', 'editor'] } } }),
+			).toBe(3); // viewer
+
+			expect(
+				await count({
+					filters: { role: { notBetween: ['admin', 'editor'], bounds: '(]' } },
+				}),
+			).toBe(5); // admin + viewer
+		});
+
+		test('between - dates on a timestamp column', async () => {
+			const datesCrud = crud(users, { allowedFilters: ['createdAt'] });
+			const dates = [
+				['john.admin@company.com', '2024-01-01T00:00:00.000Z'],
+				['maria.editor@company.com', '2024-01-15T12:00:00.000Z'],
+				['peter.viewer@company.com', '2024-02-01T00:00:00.000Z'],
+			] as const;
+
+			for (const [email, date] of dates) {
+				await db
+					.update(users)
+					.set({ createdAt: new Date(date) })
+					.where(eq(users.email, email));
+			}
+
+			const january = await datesCrud.list({
+				filters: {
+					createdAt: {
+						between: ['2024-01-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z'],
+						bounds: '[)',
+					},
+				},
+			});
+			expect(january.results.map((user) => user.name).sort()).toEqual([
+				'John Admin',
+				'Maria Editor',
+			]);
+
+			const withDates = await datesCrud.list({
+				filters: {
+					createdAt: {
+						between: [new Date('2024-01-10'), new Date('2024-02-01')],
+					},
+				},
+			});
+			expect(withDates.results.map((user) => user.name).sort()).toEqual([
+				'Maria Editor',
+				'Peter Viewer',
+			]);
+
+			await expect(
+				datesCrud.list({
+					filters: {
+						createdAt: {
+							between: ['yesterday', null],
+						},
+					},
+				}),
+			).rejects.toThrow('Invalid date "yesterday"');
+		});
+
+		test('rejects a value that is not a [from, to] pair', async () => {
+			// Without a validation adapter, the value reaches the filter as is
+			const unvalidatedCrud = drizzleCrud(db)(users, {
+				allowedFilters: ['createdAt', 'role'],
+			});
+
+			await expect(
+				unvalidatedCrud.list({
+					// @ts-expect-error between takes a pair
+					filters: { createdAt: { between: 5 } },
+				}),
+			).rejects.toThrow('Expected a [from, to] pair for "between"');
+
+			await expect(
+				unvalidatedCrud.list({
+					// @ts-expect-error notBetween takes a pair
+					filters: { role: { notBetween: ['admin'] } },
+				}),
+			).rejects.toThrow('Expected a [from, to] pair for "notBetween"');
+		});
+	});
+
 	describe('IN operator - STRING fields', () => {
 		test('in - multiple values', async () => {
 			const result = await usersCrud.list({
@@ -331,6 +459,67 @@ describe('COMPLETE OPERATOR TESTS - ALL CASES', () => {
 		});
 	});
 
+	describe('HAS operators - JSON ARRAYS', () => {
+		const names = async (filters: Parameters<typeof usersCrud.list>[0]) =>
+			(await usersCrud.list(filters)).results.map((user) => user.name).sort();
+
+		test('has - array holds the value', async () => {
+			expect(await names({ filters: { countries: { has: 'BR' } } })).toEqual([
+				'Maria Editor',
+			]);
+
+			// Matches whole elements, unlike like '%B%'
+			expect(await names({ filters: { countries: { has: 'B' } } })).toEqual([]);
+		});
+
+		test('hasAny - array holds one of the values', async () => {
+			expect(
+				await names({ filters: { countries: { hasAny: ['PT', 'BR'] } } }),
+			).toEqual(['Anna Admin', 'Maria Editor']);
+
+			expect(await names({ filters: { countries: { hasAny: [] } } })).toEqual(
+				[],
+			);
+		});
+
+		test('hasAll - array holds every value', async () => {
+			expect(
+				await names({ filters: { countries: { hasAll: ['BR', 'AR'] } } }),
+			).toEqual(['Maria Editor']);
+
+			expect(
+				await names({ filters: { countries: { hasAll: ['BR', 'PT'] } } }),
+			).toEqual([]);
+		});
+
+		test('hasNone - array holds none of the values, NULL included', async () => {
+			const result = await usersCrud.list({
+				filters: { countries: { hasNone: ['PT', 'BR'] } },
+			});
+
+			expect(result.totalItems).toBe(5);
+			expect(result.results.map((user) => user.name)).toContain('Null User');
+
+			const notNull = await usersCrud.list({
+				filters: { countries: { hasNone: ['PT', 'BR'], isNotNull: true } },
+			});
+			expect(notNull.totalItems).toBe(4);
+		});
+
+		test('combines with other operators in OR groups', async () => {
+			expect(
+				await names({
+					filters: {
+						OR: [
+							{ countries: { has: 'MX' } },
+							{ countries: { hasAll: ['JP', 'KR'] } },
+						],
+					},
+				}),
+			).toEqual(['Carlos Editor', 'Yuki Viewer']);
+		});
+	});
+
 	describe('LIKE operator', () => {
 		test('like - pattern at end', async () => {
 			const result = await usersCrud.list({
@@ -491,6 +680,123 @@ describe('COMPLETE OPERATOR TESTS - ALL CASES', () => {
 		});
 	});
 
+	describe('STARTS WITH/ENDS WITH/CONTAINS operators', () => {
+		test('startsWith, endsWith and contains', async () => {
+			const starts = await usersCrud.list({
+				filters: { name: { startsWith: 'John' } },
+			});
+			expect(starts.results.map((user) => user.name)).toEqual(['John Admin']);
+
+			const ends = await usersCrud.list({
+				filters: { email: { endsWith: '@company.com' } },
+			});
+			expect(ends.totalItems).toBe(3);
+
+			const contains = await usersCrud.list({
+				filters: { name: { contains: 'Editor' } },
+			});
+			expect(contains.totalItems).toBe(2);
+		});
+
+		test('plain variants are case-sensitive', async () => {
+			const starts = await usersCrud.list({
+				filters: { name: { startsWith: 'john' } },
+			});
+			expect(starts.totalItems).toBe(0);
+
+			const ends = await usersCrud.list({
+				filters: { email: { endsWith: '@COMPANY.COM' } },
+			});
+			expect(ends.totalItems).toBe(0);
+
+			const contains = await usersCrud.list({
+				filters: { name: { contains: 'ADMIN' } },
+			});
+			expect(contains.totalItems).toBe(0);
+		});
+
+		test('case-insensitive variants', async () => {
+			const starts = await usersCrud.list({
+				filters: { name: { istartsWith: 'JOHN' } },
+			});
+			expect(starts.results.map((user) => user.name)).toEqual(['John Admin']);
+
+			const ends = await usersCrud.list({
+				filters: { email: { iendsWith: '@COMPANY.COM' } },
+			});
+			expect(ends.totalItems).toBe(3);
+
+			const contains = await usersCrud.list({
+				filters: { name: { icontains: 'eDiToR' } },
+			});
+			expect(contains.totalItems).toBe(2);
+		});
+
+		test('matches % and _ literally', async () => {
+			const wildcard = await usersCrud.list({
+				filters: { name: { contains: '%' } },
+			});
+			expect(wildcard.totalItems).toBe(0);
+
+			const single = await usersCrud.list({
+				filters: { email: { startsWith: 'john_admin' } },
+			});
+			expect(single.totalItems).toBe(0);
+
+			const [user] = await db
+				.insert(users)
+				.values({ email: '100_percent@test.com', name: '100% Done\\' })
+				.returning();
+
+			try {
+				const percent = await usersCrud.list({
+					filters: { name: { contains: '0% D' } },
+				});
+				expect(percent.results.map((row) => row.id)).toEqual([user.id]);
+
+				const underscore = await usersCrud.list({
+					filters: { email: { istartsWith: '100_' } },
+				});
+				expect(underscore.results.map((row) => row.id)).toEqual([user.id]);
+
+				const backslash = await usersCrud.list({
+					filters: { name: { endsWith: 'Done\\' } },
+				});
+				expect(backslash.results.map((row) => row.id)).toEqual([user.id]);
+			} finally {
+				await db.delete(users).where(eq(users.id, user.id));
+			}
+		});
+
+		test('lowers non-ASCII values and terms the same way', async () => {
+			const [user] = await db
+				.insert(users)
+				.values({ email: 'elodie@test.com', name: 'ÉLODIE Durand' })
+				.returning();
+
+			const ids = async (filters: Record<string, unknown>) =>
+				(await usersCrud.list({ filters })).results.map((row) => row.id);
+
+			try {
+				expect(await ids({ name: { icontains: 'Élodie' } })).toEqual([user.id]);
+				// Without a Unicode caseFold, SQLite's lower() keeps É and é apart
+				expect(await ids({ name: { istartsWith: 'élodie' } })).toEqual([]);
+				expect(
+					(
+						await unicodeCrud.list({
+							filters: { name: { istartsWith: 'élodie' } },
+						})
+					).results.map((row) => row.id),
+				).toEqual([user.id]);
+				expect(await ids({ name: { contains: 'ÉLODIE' } })).toEqual([user.id]);
+				expect(await ids({ name: { contains: 'Élodie' } })).toEqual([]);
+				expect(await ids({ name: { endsWith: 'Durand' } })).toEqual([user.id]);
+			} finally {
+				await db.delete(users).where(eq(users.id, user.id));
+			}
+		});
+	});
+
 	describe('COMBINED filters', () => {
 		test('multiple operators on same field', async () => {
 			const result = await usersCrud.list({
@@ -529,6 +835,44 @@ describe('COMPLETE OPERATOR TESTS - ALL CASES', () => {
 			expect(result.totalItems).toBe(2);
 		});
 
+		test('nested AND/OR/NOT groups', async () => {
+			const result = await usersCrud.list({
+				filters: {
+					OR: [
+						{ AND: [{ role: 'admin' }, { status: 'active' }] },
+						{ AND: [{ role: 'viewer' }, { NOT: { status: 'active' } }] },
+					],
+				},
+				orderBy: [{ field: 'name', direction: 'asc' }],
+			});
+
+			// Active admins OR viewers that are not active
+			expect(result.results.map((user) => user.name)).toEqual([
+				'John Admin',
+				'Peter Viewer',
+			]);
+		});
+
+		test('NOT logic', async () => {
+			const result = await usersCrud.list({
+				filters: {
+					NOT: { OR: [{ role: 'admin' }, { role: 'editor' }] },
+					status: 'active',
+				},
+			});
+
+			// Active viewers: Yuki and Null User
+			expect(result.totalItems).toBe(2);
+			result.results.forEach((user) => {
+				expect(user.role).toBe('viewer');
+			});
+
+			const empty = await usersCrud.list({
+				filters: { NOT: {}, OR: [{ AND: [] }] },
+			});
+			expect(empty.totalItems).toBe(7);
+		});
+
 		test('complex filter combination', async () => {
 			const result = await usersCrud.list({
 				filters: {
@@ -544,44 +888,63 @@ describe('COMPLETE OPERATOR TESTS - ALL CASES', () => {
 	});
 
 	describe('NULL handling', () => {
-		test('null values in filters - LIMITATION', async () => {
-			console.log('\n⚠️  Testing NULL filters');
-
+		test('null value matches NULL', async () => {
 			const result = await usersCrud.list({
 				filters: {
 					countries: null, // Find users with null countries
 				},
 			});
 
-			console.log('Users with null countries:', result.totalItems);
-			console.log(
-				'Results:',
-				result.results.map((u) => ({
-					name: u.name,
-					countries: u.countries,
-				})),
-			);
+			expect(result.totalItems).toBe(1);
+			expect(result.results[0].name).toBe('Null User');
 
-			// This might not work as expected with JSON fields
-			// The test shows actual behavior
-			if (result.totalItems === 0) {
-				console.log('❌ NULL filter does not work for JSON fields');
-			}
+			const equals = await usersCrud.list({
+				filters: { countries: { equals: null } },
+			});
+			expect(equals.totalItems).toBe(1);
 		});
 
-		test('not null values - LIMITATION', async () => {
+		test('not null matches non-NULL values', async () => {
 			const result = await usersCrud.list({
 				filters: {
 					countries: { not: null },
 				},
 			});
 
-			console.log('Users with NOT null countries:', result.totalItems);
+			expect(result.totalItems).toBe(6);
+			result.results.forEach((user) => {
+				expect(user.countries).not.toBeNull();
+			});
+		});
 
-			// This might not work as expected with JSON fields
-			if (result.totalItems === 0) {
-				console.log('❌ NOT NULL filter does not work for JSON fields');
-			}
+		test('isNull operator', async () => {
+			const result = await usersCrud.list({
+				filters: { countries: { isNull: true } },
+			});
+
+			expect(result.totalItems).toBe(1);
+			expect(result.results[0].name).toBe('Null User');
+
+			const negated = await usersCrud.list({
+				filters: { countries: { isNull: false } },
+			});
+			expect(negated.totalItems).toBe(6);
+		});
+
+		test('isNotNull operator', async () => {
+			const result = await usersCrud.list({
+				filters: { countries: { isNotNull: true } },
+			});
+
+			expect(result.totalItems).toBe(6);
+
+			const combined = await usersCrud.list({
+				filters: { countries: { isNotNull: true }, role: 'viewer' },
+			});
+			expect(combined.results.map((user) => user.name).sort()).toEqual([
+				'Peter Viewer',
+				'Yuki Viewer',
+			]);
 		});
 	});
 
@@ -0,0 +1,231 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { db } from '../exemples/client';
+import { comments, posts, users } from '../exemples/schema';
+import { drizzleCrud } from '../src/index';
+import { zod } from '../src/zod';
+
+const crud = drizzleCrud(db, { validation: zod() });
+
+const usersCrud = crud(users, {
+	searchFields: ['name'],
+	allowedFilters: ['role'],
+	softDelete: {
+		field: 'deletedAt',
+		deletedValue: new Date(),
+		notDeletedValue: null,
+	},
+	scopeFilters: {
+		status: (value) => (value ? eq(users.status, value) : undefined),
+	},
+});
+
+const collect = async (chunks: AsyncIterable<string>) => {
+	let text = '';
+
+	for await (const chunk of chunks) {
+		text += chunk;
+	}
+
+	return text;
+};
+
+describe('Export', () => {
+	const createdAt = new Date('2024-01-02T03:04:05.000Z');
+
+	beforeAll(async () => {
+		await db.delete(comments);
+		await db.delete(posts);
+		await db.delete(users);
+
+		const rows = [
+			{ name: 'Alice', role: 'admin', countries: ['PT', 'BR'] },
+			{ name: 'Garcia, "Bruno"', role: 'editor', countries: [] },
+			{ name: 'Carla\nSmith', role: 'editor', countries: null },
+			{ name: 'Diego', role: 'viewer', status: 'inactive' },
+		] as const;
+
+		for (const [index, row] of rows.entries()) {
+			await usersCrud.create({
+				...row,
+				email: `user${index}@export.com`,
+				createdAt,
+			});
+		}
+
+		const deleted = await usersCrud.create({
+			email: 'deleted@export.com',
+			name: 'Deleted',
+		});
+		await usersCrud.deleteOne(deleted.id);
+	});
+
+	afterAll(async () => {
+		await db.delete(users);
+	});
+
+	test('writes CSV with headers and escaping', async () => {
+		const csv = await collect(
+			usersCrud.export(
+				{ filters: { role: { in: ['admin', 'editor'] } } },
+				{ format: 'csv', columns: ['name', 'role'] },
+			),
+		);
+
+		expect(csv).toBe(
+			[
+				'name,role',
+				'Alice,admin',
+				'"Garcia, ""Bruno""",editor',
+				'"Carla\nSmith",editor',
+				'',
+			].join('\r\n'),
+		);
+	});
+
+	test('serializes dates and JSON columns', async () => {
+		const csv = await collect(
+			usersCrud.export(
+				{ search: 'alice' },
+				{ format: 'csv', columns: ['countries', 'createdAt', 'bio'] },
+			),
+		);
+
+		expect(csv).toBe(
+			'countries,createdAt,bio\r\n"[""PT"",""BR""]",2024-01-02T03:04:05.000Z,\r\n',
+		);
+
+		const ndjson = await collect(
+			usersCrud.export(
+				{ search: 'alice' },
+				{ format: 'ndjson', columns: ['countries', 'createdAt', 'bio'] },
+			),
+		);
+
+		expect(ndjson).toBe(
+			'{"countries":["PT","BR"],"createdAt":"2024-01-02T03:04:05.000Z","bio":null}\n',
+		);
+	});
+
+	test('escapes cells that spreadsheets would run as formulas', async () => {
+		const user = await usersCrud.create({
+			email: 'formula@export.com',
+			name: '=HYPERLINK("http://evil.example","Click")',
+			bio: '@SUM(A1)',
+		});
+
+		const exportFormula = (
+			escapeFormulas?: boolean,
+			formatId: (id: number) => unknown = (id) => -id,
+		) =>
+			collect(
+				usersCrud.export(
+					{ search: 'hyperlink' },
+					{
+						format: 'csv',
+						columns: ['name', 'bio', 'id'],
+						formatters: { id: formatId },
+						escapeFormulas,
+					},
+				),
+			);
+
+		expect(await exportFormula()).toBe(
+			`name,bio,id\r\n"'=HYPERLINK(""http://evil.example"",""Click"")",'@SUM(A1),-${user.id}\r\n`,
+		);
+		expect(await exportFormula(false)).toBe(
+			`name,bio,id\r\n"=HYPERLINK(""http://evil.example"",""Click"")",@SUM(A1),-${user.id}\r\n`,
+		);
+		expect(await exportFormula(true, (id) => BigInt(-id))).toBe(
+			`name,bio,id\r\n"'=HYPERLINK(""http://evil.example"",""Click"")",'@SUM(A1),-${user.id}\r\n`,
+		);
+
+		await db.delete(users).where(eq(users.id, user.id));
+	});
+
+	test('applies custom headers and formatters', async () => {
+		const csv = await collect(
+			usersCrud.export(
+				{ filters: { role: 'admin' } },
+				{
+					format: 'csv',
+					columns: ['name', 'countries'],
+					headers: { name: 'Full name' },
+					formatters: {
+						countries: (countries) =>
+							((countries as string[]) ?? []).join(' | '),
+					},
+				},
+			),
+		);
+
+		expect(csv).toBe('Full name,countries\r\nAlice,PT | BR\r\n');
+	});
+
+	test('writes every column by default', async () => {
+		const [header] = (
+			await collect(usersCrud.export({}, { format: 'csv' }))
+		).split('\r\n');
+
+		expect(header).toBe(
+			'id,email,name,role,status,bio,avatarUrl,countries,deletedAt,createdAt,updatedAt',
+		);
+	});
+
+	test('streams a JSON array across batches', async () => {
+		const chunks: string[] = [];
+
+		for await (const chunk of usersCrud.export(
+			{ batchSize: 2 },
+			{ format: 'json', columns: ['name'] },
+		)) {
+			chunks.push(chunk);
+		}
+
+		expect(chunks).toHaveLength(4);
+		expect(JSON.parse(chunks.join(''))).toEqual([
+			{ name: 'Alice' },
+			{ name: 'Garcia, "Bruno"' },
+			{ name: 'Carla\nSmith' },
+			{ name: 'Diego' },
+		]);
+
+		const empty = await collect(
+			usersCrud.export({ search: 'nobody' }, { format: 'json' }),
+		);
+		expect(empty).toBe('[]');
+	});
+
+	test('applies scope filters and soft delete', async () => {
+		const scoped = await collect(
+			usersCrud.export(
+				{},
+				{ format: 'ndjson', columns: ['name'] },
+				{ scope: { status: 'inactive' } },
+			),
+		);
+		expect(scoped).toBe('{"name":"Diego"}\n');
+
+		const withDeleted = await collect(
+			usersCrud.export(
+				{ includeDeleted: true, search: 'deleted' },
+				{ format: 'ndjson', columns: ['name'] },
+			),
+		);
+		expect(withDeleted).toBe('{"name":"Deleted"}\n');
+	});
+
+	test('rejects unknown columns and formats', async () => {
+		await expect(
+			collect(
+				// @ts-expect-error password is not a column
+				usersCrud.export({}, { format: 'csv', columns: ['password'] }),
+			),
+		).rejects.toThrow('Unknown column "password"');
+
+		await expect(
+			// @ts-expect-error xml is not a format
+			collect(usersCrud.export({}, { format: 'xml' })),
+		).rejects.toThrow('Unknown export format "xml"');
+	});
+});
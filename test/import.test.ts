@@ -0,0 +1,224 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+import { asc } from 'drizzle-orm';
+import { db } from '../exemples/client';
+import { comments, posts, users } from '../exemples/schema';
+import { drizzleCrud } from '../src/index';
+import { zod } from '../src/zod';
+
+const crud = drizzleCrud(db, { validation: zod() });
+
+const usersCrud = crud(users, {
+	hooks: {
+		beforeCreate: (data) => ({ ...data, email: data.email.toLowerCase() }),
+	},
+});
+
+const allUsers = () => db.select().from(users).orderBy(asc(users.id));
+
+describe('Import', () => {
+	beforeEach(async () => {
+		await db.delete(comments);
+		await db.delete(posts);
+		await db.delete(users);
+	});
+
+	afterAll(async () => {
+		await db.delete(users);
+	});
+
+	test('creates rows from CSV', async () => {
+		const csv = [
+			'email,name,role,countries,createdAt',
+			'ALICE@import.com,Alice,admin,"[""PT"",""BR""]",2024-01-02T03:04:05.000Z',
+			'bruno@import.com,"Garcia, ""Bruno""",editor,,',
+			'carla@import.com,"Carla',
+			'Smith",viewer,[],',
+			'',
+		].join('\r\n');
+
+		const report = await usersCrud.import(csv, { format: 'csv' });
+
+		expect(report).toMatchObject({ total: 3, succeeded: 3, failed: 0 });
+
+		const rows = await allUsers();
+
+		expect(report.rows).toEqual(
+			rows.map((user, index) => ({
+				row: index + 1,
+				success: true,
+				id: user.id,
+			})),
+		);
+		expect(
+			rows.map(({ email, name, role, countries }) => ({
+				email,
+				name,
+				role,
+				countries,
+			})),
+		).toEqual([
+			{
+				email: 'alice@import.com',
+				name: 'Alice',
+				role: 'admin',
+				countries: ['PT', 'BR'],
+			},
+			{
+				email: 'bruno@import.com',
+				name: 'Garcia, "Bruno"',
+				role: 'editor',
+				countries: null,
+			},
+			{
+				email: 'carla@import.com',
+				name: 'Carla\r\nSmith',
+				role: 'viewer',
+				countries: [],
+			},
+		]);
+		expect(rows[0].createdAt).toEqual(new Date('2024-01-02T03:04:05.000Z'));
+	});
+
+	test('reports invalid rows without aborting', async () => {
+		const csv = [
+			'email,name,role',
+			'one@import.com,One,admin',
+			'two@import.com,Two,owner',
+			'three@import.com,,viewer',
+			'four@import.com,Four',
+			'one@import.com,Duplicate,viewer',
+			'five@import.com,Five,editor',
+		].join('\n');
+
+		const report = await usersCrud.import(csv, { format: 'csv' });
+
+		expect(report).toMatchObject({ total: 6, succeeded: 2, failed: 4 });
+
+		const failures = report.rows.filter((row) => !row.success);
+
+		expect(failures.map((row) => row.row)).toEqual([2, 3, 4, 5]);
+		expect(failures[0].issues[0].path).toEqual(['role']);
+		expect(failures[1].issues[0].path).toEqual(['name']);
+		expect(failures[2].issues).toEqual([
+			{ message: 'Expected 3 columns, got 2' },
+		]);
+		expect(failures[3].issues[0].message).toContain(
+			'UNIQUE constraint failed: users.email',
+		);
+
+		const rows = await allUsers();
+		expect(rows.map((user) => user.name)).toEqual(['One', 'Five']);
+	});
+
+	test('reads NDJSON from a byte stream', async () => {
+		const text = [
+			'{"email":"elodie@import.com","name":"Élodie","createdAt":"2024-01-02T03:04:05.000Z"}',
+			'',
+			'not json',
+			'["an","array"]',
+			'{"email":"zoe@import.com","name":"Zoé","countries":["FR"]}',
+		].join('\n');
+
+		// Splits the bytes in the middle of the multi-byte "É"
+		const bytes = new TextEncoder().encode(text);
+		const split = bytes.indexOf(0xc3) + 1;
+
+		async function* stream() {
+			yield bytes.slice(0, split);
+			yield bytes.slice(split);
+		}
+
+		const report = await usersCrud.import(stream(), { format: 'ndjson' });
+
+		expect(report).toMatchObject({ total: 4, succeeded: 2, failed: 2 });
+		expect(report.rows.filter((row) => !row.success)).toEqual([
+			{ row: 2, success: false, issues: [{ message: 'Invalid JSON' }] },
+			{
+				row: 3,
+				success: false,
+				issues: [{ message: 'Each line must be a JSON object' }],
+			},
+		]);
+
+		const rows = await allUsers();
+		expect(rows.map(({ name, countries }) => ({ name, countries }))).toEqual([
+			{ name: 'Élodie', countries: ['PT', 'BR', 'ES'] },
+			{ name: 'Zoé', countries: ['FR'] },
+		]);
+		expect(rows[0].createdAt).toEqual(new Date('2024-01-02T03:04:05.000Z'));
+	});
+
+	test('upserts an export back into the table', async () => {
+		await usersCrud.import(
+			'email,name\nann@import.com,Ann\nben@import.com,Ben\n',
+			{ format: 'csv' },
+		);
+
+		let exported = '';
+		for await (const chunk of usersCrud.export(
+			{},
+			{ format: 'ndjson', columns: ['id', 'email', 'name', 'createdAt'] },
+		)) {
+			exported += chunk;
+		}
+
+		const edited = `${exported.replace('"Ben"', '"Benjamin"')}{"email":"cid@import.com","name":"Cid"}\n`;
+
+		const report = await usersCrud.import(edited, {
+			format: 'ndjson',
+			mode: 'upsert',
+			batchSize: 2,
+		});
+
+		expect(report).toMatchObject({ total: 3, succeeded: 3, failed: 0 });
+
+		const rows = await allUsers();
+		expect(rows.map((user) => user.name)).toEqual(['Ann', 'Benjamin', 'Cid']);
+	});
+
+	test('upserts only the columns each row holds', async () => {
+		const [ann, ben] = await db
+			.insert(users)
+			.values([
+				{ email: 'ann@import.com', name: 'Ann', bio: 'keep me A' },
+				{ email: 'ben@import.com', name: 'Ben', bio: 'keep me B' },
+			])
+			.returning();
+
+		const ndjson = [
+			{ id: ann.id, email: ann.email, name: 'Ann', bio: 'new A' },
+			{ id: ben.id, email: ben.email, name: 'Benjamin' },
+		]
+			.map((row) => `${JSON.stringify(row)}\n`)
+			.join('');
+
+		const report = await usersCrud.import(ndjson, {
+			format: 'ndjson',
+			mode: 'upsert',
+			batchSize: 2,
+		});
+
+		expect(report).toMatchObject({ total: 2, succeeded: 2, failed: 0 });
+
+		const rows = await allUsers();
+		expect(rows.map(({ name, bio }) => ({ name, bio }))).toEqual([
+			{ name: 'Ann', bio: 'new A' },
+			{ name: 'Benjamin', bio: 'keep me B' },
+		]);
+	});
+
+	test('rejects unknown columns, formats and batch sizes', async () => {
+		await expect(
+			usersCrud.import('email,password\n', { format: 'csv' }),
+		).rejects.toThrow('Unknown column "password"');
+
+		await expect(
+			// @ts-expect-error xml is not a format
+			usersCrud.import('', { format: 'xml' }),
+		).rejects.toThrow('Unknown import format "xml"');
+
+		await expect(
+			usersCrud.import('', { format: 'csv', batchSize: 0 }),
+		).rejects.toThrow('batchSize must be a positive integer');
+	});
+});
@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { db } from '../exemples/client';
+import { comments, posts, users } from '../exemples/schema';
+import { drizzleCrud, filtersToWhere } from '../src/index';
+import { zod } from '../src/zod';
+
+const crud = drizzleCrud(db, { validation: zod() });
+
+const postsCrud = crud(posts, {
+	allowedFilters: ['status'],
+	allowedJsonPaths: [
+		'metadata.featured',
+		'metadata.seo.score',
+		'metadata.seo.keywords',
+	],
+});
+
+describe('JSON paths', () => {
+	beforeAll(async () => {
+		await db.delete(comments);
+		await db.delete(posts);
+		await db.delete(users);
+
+		const [author] = await db
+			.insert(users)
+			.values({ email: 'author@json.com', name: 'Author' })
+			.returning();
+
+		const rows = [
+			{ featured: true, seo: { score: 80, keywords: ['orm', 'sqlite'] } },
+			{ featured: false, seo: { score: 40, keywords: ['orm'] } },
+			{ seo: { score: 95 } },
+			null,
+		];
+
+		for (const [index, metadata] of rows.entries()) {
+			await postsCrud.create({
+				title: `Post ${index}`,
+				slug: `json-post-${index}`,
+				content: 'Lorem ipsum',
+				authorId: author.id,
+				metadata,
+			});
+		}
+	});
+
+	afterAll(async () => {
+		await db.delete(posts);
+		await db.delete(users);
+	});
+
+	const titles = (result: { results: { title: string }[] }) =>
+		result.results.map((post) => post.title);
+
+	test('filters by a dotted path', async () => {
+		const result = await postsCrud.list({
+			filters: { 'metadata.seo.score': { gte: 80 } },
+			orderBy: [{ field: 'title', direction: 'asc' }],
+		});
+
+		expect(titles(result)).toEqual(['Post 0', 'Post 2']);
+	});
+
+	test('filters by a path on the column', async () => {
+		const result = await postsCrud.list({
+			filters: { metadata: { path: '$.featured', equals: true } },
+		});
+
+		expect(titles(result)).toEqual(['Post 0']);
+	});
+
+	test('combines with the other operators', async () => {
+		const keywords = await postsCrud.list({
+			filters: { 'metadata.seo.keywords': { has: 'sqlite' } },
+		});
+		expect(titles(keywords)).toEqual(['Post 0']);
+
+		const missing = await postsCrud.list({
+			filters: { 'metadata.seo.score': { isNull: true } },
+		});
+		expect(titles(missing)).toEqual(['Post 3']);
+	});
+
+	test('sorts by a path', async () => {
+		const result = await postsCrud.list({
+			orderBy: [{ field: 'metadata.seo.score', direction: 'desc' }],
+		});
+
+		expect(titles(result)).toEqual(['Post 2', 'Post 0', 'Post 1', 'Post 3']);
+
+		await expect(
+			postsCrud.list({
+				cursor: true,
+				orderBy: [{ field: 'metadata.seo.score', direction: 'desc' }],
+			}),
+		).rejects.toThrow(
+			'Cursor pagination cannot be ordered by "metadata.seo.score"',
+		);
+	});
+
+	test('rejects paths outside allowedJsonPaths', async () => {
+		await expect(
+			postsCrud.list({
+				filters: { metadata: { path: '$.secret', equals: 1 } },
+			}),
+		).rejects.toThrow('JSON path "metadata.secret" is not allowed');
+
+		await expect(
+			postsCrud.list({
+				orderBy: [{ field: 'metadata.secret', direction: 'asc' }],
+			}),
+		).rejects.toThrow();
+
+		expect(() =>
+			filtersToWhere(posts, { 'metadata.seo.score': 1 }, [], []),
+		).toThrow('JSON path "metadata.seo.score" is not allowed');
+
+		expect(() =>
+			crud(posts, {
+				// @ts-expect-error title is not a JSON column
+				allowedJsonPaths: ['title.length'],
+			}),
+		).toThrow('"title.length" is not a path of a JSON column');
+	});
+});
@@ -0,0 +1,416 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { db } from '../exemples/client';
+import { comments, posts, users } from '../exemples/schema';
+import { drizzleCrud } from '../src/index';
+import { zod } from '../src/zod';
+
+const crud = drizzleCrud(db, { validation: zod() });
+
+const usersCrud = crud(users, {
+	searchFields: ['name', 'email'],
+	allowedFilters: ['role', 'status'],
+	softDelete: {
+		field: 'deletedAt',
+		deletedValue: new Date(),
+		notDeletedValue: null,
+	},
+});
+
+const names = ['Alice', 'Bruno', 'Carla', 'Diego', 'Elena', 'Fabio', 'Gabi'];
+
+describe('Cursor Pagination', () => {
+	beforeAll(async () => {
+		await db.delete(comments);
+		await db.delete(posts);
+		await db.delete(users);
+
+		for (const [index, name] of names.entries()) {
+			await usersCrud.create({
+				email: `${name.toLowerCase()}@cursor.com`,
+				name,
+				role: index % 2 === 0 ? 'editor' : 'viewer',
+			});
+		}
+	});
+
+	test('first page returns a next cursor and no totals', async () => {
+		const result = await usersCrud.list({
+			cursor: true,
+			perPage: 3,
+			orderBy: [{ field: 'name', direction: 'asc' }],
+		});
+
+		expect(result.results.map((user) => user.name)).toEqual([
+			'Alice',
+			'Bruno',
+			'Carla',
+		]);
+		expect(result.hasNextPage).toBe(true);
+		expect(result.hasPreviousPage).toBe(false);
+		expect(result.nextCursor).toBeString();
+		expect(result.prevCursor).toBeNull();
+		expect(result).not.toHaveProperty('totalPages');
+	});
+
+	test('walks forward through every page', async () => {
+		const collected: string[] = [];
+		let after: string | undefined;
+
+		do {
+			const result = await usersCrud.list({
+				perPage: 2,
+				orderBy: [{ field: 'name', direction: 'desc' }],
+				cursor: true,
+				after,
+			});
+
+			collected.push(...result.results.map((user) => user.name));
+			after = result.nextCursor ?? undefined;
+		} while (after);
+
+		expect(collected).toEqual([...names].reverse());
+	});
+
+	test('walks backward with the previous cursor', async () => {
+		const first = await usersCrud.list({
+			cursor: true,
+			perPage: 3,
+			orderBy: [{ field: 'name', direction: 'asc' }],
+		});
+		const second = await usersCrud.list({
+			after: first.nextCursor!,
+			perPage: 3,
+			orderBy: [{ field: 'name', direction: 'asc' }],
+		});
+
+		expect(second.hasPreviousPage).toBe(true);
+		expect(second.results.map((user) => user.name)).toEqual([
+			'Diego',
+			'Elena',
+			'Fabio',
+		]);
+
+		const back = await usersCrud.list({
+			before: second.prevCursor!,
+			perPage: 3,
+			orderBy: [{ field: 'name', direction: 'asc' }],
+		});
+
+		expect(back.results.map((user) => user.name)).toEqual([
+			'Alice',
+			'Bruno',
+			'Carla',
+		]);
+		expect(back.hasPreviousPage).toBe(false);
+		expect(back.hasNextPage).toBe(true);
+	});
+
+	test('uses id as tie-breaker for duplicate sort values', async () => {
+		const seen: number[] = [];
+		let after: string | undefined;
+
+		do {
+			const result = await usersCrud.list({
+				perPage: 2,
+				orderBy: [{ field: 'role', direction: 'asc' }],
+				cursor: true,
+				after,
+			});
+
+			seen.push(...result.results.map((user) => user.id));
+			after = result.nextCursor ?? undefined;
+		} while (after);
+
+		expect(seen).toHaveLength(names.length);
+		expect(new Set(seen).size).toBe(names.length);
+	});
+
+	test('applies filters alongside the cursor', async () => {
+		const result = await usersCrud.list({
+			cursor: true,
+			perPage: 10,
+			filters: { role: 'viewer' },
+		});
+
+		expect(result.results).toHaveLength(3);
+		expect(result.hasNextPage).toBe(false);
+		expect(result.nextCursor).toBeNull();
+	});
+
+	test('rejects an invalid cursor', async () => {
+		await expect(usersCrud.list({ after: 'not-a-cursor' })).rejects.toThrow(
+			'Invalid cursor',
+		);
+	});
+});
+
+describe('Count Strategy', () => {
+	test('exact count is the default', async () => {
+		const result = await usersCrud.list({ perPage: 3 });
+
+		expect(result.totalItems).toBe(names.length);
+		expect(result.totalPages).toBe(3);
+	});
+
+	test('none skips the totals and detects the next page', async () => {
+		const first = await usersCrud.list({ perPage: 3, count: 'none' });
+
+		expect(first.results).toHaveLength(3);
+		expect(first.hasNextPage).toBe(true);
+		expect(first).not.toHaveProperty('totalItems');
+		expect(first).not.toHaveProperty('totalPages');
+
+		const last = await usersCrud.list({ page: 3, perPage: 3, count: 'none' });
+
+		expect(last.results).toHaveLength(1);
+		expect(last.hasNextPage).toBe(false);
+		expect(last.hasPreviousPage).toBe(true);
+	});
+
+	test('estimated reuses a cached count', async () => {
+		const first = await usersCrud.list({
+			perPage: 3,
+			count: 'estimated',
+			filters: { role: 'editor' },
+		});
+
+		expect(first.totalItems).toBe(4);
+		expect(first.hasNextPage).toBe(true);
+
+		const user = await usersCrud.create({
+			email: 'estimated@cursor.com',
+			name: 'Estimated',
+			role: 'editor',
+		});
+
+		const cached = await usersCrud.list({
+			perPage: 3,
+			count: 'estimated',
+			filters: { role: 'editor' },
+		});
+		const exact = await usersCrud.list({
+			perPage: 3,
+			filters: { role: 'editor' },
+		});
+
+		expect(cached.totalItems).toBe(4);
+		expect(exact.totalItems).toBe(5);
+
+		await db.delete(users).where(eq(users.id, user.id));
+	});
+});
+
+describe('Iteration', () => {
+	test('iterate() yields every matching row in id order', async () => {
+		const seen: string[] = [];
+
+		for await (const user of usersCrud.iterate({ batchSize: 2 })) {
+			seen.push(user.name);
+		}
+
+		expect(seen).toEqual(names);
+	});
+
+	test('iterateBatches() yields batches of batchSize', async () => {
+		const sizes: number[] = [];
+
+		for await (const batch of usersCrud.iterateBatches({ batchSize: 3 })) {
+			sizes.push(batch.length);
+		}
+
+		expect(sizes).toEqual([3, 3, 1]);
+	});
+
+	test('applies filters, search and soft delete', async () => {
+		const deleted = await usersCrud.create({
+			email: 'deleted@iterate.com',
+			name: 'Deleted Editor',
+			role: 'editor',
+		});
+		await usersCrud.deleteOne(deleted.id);
+
+		const seen: string[] = [];
+
+		for await (const user of usersCrud.iterate({
+			filters: { role: 'editor' },
+			search: 'el',
+		})) {
+			seen.push(user.name);
+		}
+
+		expect(seen).toEqual(['Elena']);
+
+		await db.delete(users).where(eq(users.id, deleted.id));
+	});
+
+	test('does not skip rows inserted during the run', async () => {
+		const seen: string[] = [];
+		let inserted: number | undefined;
+
+		for await (const user of usersCrud.iterate({ batchSize: 2 })) {
+			seen.push(user.name);
+
+			if (!inserted) {
+				const late = await usersCrud.create({
+					email: 'late@iterate.com',
+					name: 'Late',
+					role: 'viewer',
+				});
+				inserted = late.id;
+			}
+		}
+
+		expect(seen).toEqual([...names, 'Late']);
+
+		await db.delete(users).where(eq(users.id, inserted!));
+	});
+
+	test('narrows columns', async () => {
+		const [first] = await Array.fromAsync(
+			usersCrud.iterateBatches({ columns: { name: true }, batchSize: 1 }),
+		);
+
+		expect(first).toEqual([{ name: 'Alice' }]);
+	});
+});
+
+describe('Ordering', () => {
+	const bios: Record<string, string> = {
+		Bruno: 'b',
+		Diego: 'a',
+		Fabio: 'c',
+	};
+
+	beforeAll(async () => {
+		for (const [name, bio] of Object.entries(bios)) {
+			await db.update(users).set({ bio }).where(eq(users.name, name));
+		}
+	});
+
+	test('uses the defaultOrderBy of the crud', async () => {
+		const sortedCrud = crud(users, {
+			defaultOrderBy: [{ field: 'name', direction: 'desc' }],
+		});
+
+		const result = await sortedCrud.list({});
+		expect(result.results.map((user) => user.name)).toEqual(
+			[...names].reverse(),
+		);
+
+		const explicit = await sortedCrud.list({
+			orderBy: [{ field: 'email', direction: 'asc' }],
+		});
+		expect(explicit.results[0].name).toBe('Alice');
+	});
+
+	test('breaks ties by id', async () => {
+		const asc = await usersCrud.list({
+			orderBy: [{ field: 'role', direction: 'asc' }],
+		});
+		expect(asc.results.map((user) => user.name)).toEqual([
+			'Alice',
+			'Carla',
+			'Elena',
+			'Gabi',
+			'Bruno',
+			'Diego',
+			'Fabio',
+		]);
+
+		const desc = await usersCrud.list({
+			orderBy: [{ field: 'role', direction: 'desc' }],
+		});
+		expect(desc.results.map((user) => user.name)).toEqual([
+			'Fabio',
+			'Diego',
+			'Bruno',
+			'Gabi',
+			'Elena',
+			'Carla',
+			'Alice',
+		]);
+	});
+
+	test('places nulls first or last', async () => {
+		const last = await usersCrud.list({
+			orderBy: [{ field: 'bio', direction: 'asc', nulls: 'last' }],
+		});
+		expect(last.results.map((user) => user.name)).toEqual([
+			'Diego',
+			'Bruno',
+			'Fabio',
+			'Alice',
+			'Carla',
+			'Elena',
+			'Gabi',
+		]);
+
+		const first = await usersCrud.list({
+			orderBy: [{ field: 'bio', direction: 'desc', nulls: 'first' }],
+		});
+		expect(first.results.map((user) => user.name)).toEqual([
+			'Gabi',
+			'Elena',
+			'Carla',
+			'Alice',
+			'Fabio',
+			'Bruno',
+			'Diego',
+		]);
+	});
+
+	test('walks cursor pages with nulls placement', async () => {
+		const orderBy = [
+			{ field: 'bio', direction: 'asc', nulls: 'last' },
+		] as const;
+		const offset = await usersCrud.list({ orderBy: [...orderBy] });
+
+		const collected: string[] = [];
+		let after: string | undefined;
+
+		do {
+			const result = await usersCrud.list({
+				cursor: true,
+				perPage: 2,
+				orderBy: [...orderBy],
+				after,
+			});
+
+			collected.push(...result.results.map((user) => user.name));
+			after = result.nextCursor ?? undefined;
+		} while (after);
+
+		expect(collected).toEqual(offset.results.map((user) => user.name));
+
+		const second = await usersCrud.list({
+			cursor: true,
+			perPage: 4,
+			orderBy: [...orderBy],
+		});
+		const back = await usersCrud.list({
+			before: (
+				await usersCrud.list({
+					after: second.nextCursor!,
+					perPage: 2,
+					orderBy: [...orderBy],
+				})
+			).prevCursor!,
+			perPage: 2,
+			orderBy: [...orderBy],
+		});
+
+		expect(back.results.map((user) => user.name)).toEqual(
+			collected.slice(2, 4),
+		);
+	});
+
+	test('rejects an invalid nulls placement', async () => {
+		await expect(
+			usersCrud.list({
+				// @ts-expect-error nulls is 'first' or 'last'
+				orderBy: [{ field: 'bio', direction: 'asc', nulls: 'middle' }],
+			}),
+		).rejects.toThrow();
+	});
+});
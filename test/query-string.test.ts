@@ -0,0 +1,272 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { db } from '../exemples/client';
+import { comments, posts, users } from '../exemples/schema';
+import {
+	drizzleCrud,
+	type ListParams,
+	type ListQueryOptions,
+	parseListQuery,
+	stringifyListQuery,
+} from '../src/index';
+import { zod } from '../src/zod';
+
+const crud = drizzleCrud(db, { validation: zod() });
+
+const allowedFilters = ['id', 'role', 'status', 'name', 'createdAt'] as const;
+
+const usersCrud = crud(users, {
+	allowedFilters: [...allowedFilters],
+	searchFields: ['name'],
+});
+
+const parse = (query: string) =>
+	parseListQuery(query, users, { allowedFilters: [...allowedFilters] });
+
+describe('Query strings', () => {
+	beforeAll(async () => {
+		await db.delete(comments);
+		await db.delete(posts);
+		await db.delete(users);
+
+		await db.insert(users).values([
+			{ email: 'ana@query.com', name: 'Ana', role: 'admin' },
+			{ email: 'bea@query.com', name: 'Bea', role: 'editor' },
+			{ email: 'caio@query.com', name: 'Caio', role: 'viewer' },
+		]);
+	});
+
+	afterAll(async () => {
+		await db.delete(users);
+	});
+
+	test('parses pagination, search and sorting', () => {
+		expect(
+			parse(
+				'page=2&perPage=10&search=ana&count=estimated&includeDeleted=true&orderBy=-createdAt,name:nullsLast',
+			),
+		).toEqual({
+			page: 2,
+			perPage: 10,
+			search: 'ana',
+			count: 'estimated',
+			includeDeleted: true,
+			orderBy: [
+				{ field: 'createdAt', direction: 'desc' },
+				{ field: 'name', direction: 'asc', nulls: 'last' },
+			],
+		});
+	});
+
+	test('coerces filter values with the column types', () => {
+		expect(
+			parse(
+				'filters[id][gte]=2&filters[createdAt][lt]=2024-01-01T00:00:00.000Z&filters[role]=admin&filters[name][isNull]=false',
+			).filters,
+		).toEqual({
+			id: { gte: 2 },
+			createdAt: { lt: new Date('2024-01-01T00:00:00.000Z') },
+			role: 'admin',
+			name: { isNull: false },
+		});
+	});
+
+	test('parses lists, ranges and groups', () => {
+		const expected = { role: { in: ['admin' as const, 'editor' as const] } };
+
+		expect(parse('filters[role][in]=admin,editor').filters).toEqual(expected);
+		expect(
+			parse('filters[role][in]=admin&filters[role][in]=editor').filters,
+		).toEqual(expected);
+		expect(
+			parse('filters[role][in][1]=editor&filters[role][in][0]=admin').filters,
+		).toEqual(expected);
+
+		expect(parse('filters[id][between]=2,').filters).toEqual({
+			id: { between: [2, null] },
+		});
+
+		expect(
+			parse(
+				'filters[OR][0][role]=admin&filters[OR][1][name][startsWith]=C&filters[NOT][status]=suspended',
+			).filters,
+		).toEqual({
+			OR: [{ role: 'admin' }, { name: { startsWith: 'C' } }],
+			NOT: { status: 'suspended' },
+		});
+	});
+
+	test('round trips through stringifyListQuery', () => {
+		const params = {
+			page: 1,
+			search: 'a&b',
+			orderBy: [{ field: 'name' as const, direction: 'desc' as const }],
+			filters: {
+				id: { between: [1, null] as [number, null] },
+				name: { in: ['Ana', 'Lee, Bruce'] },
+				createdAt: { gte: new Date('2024-01-01T00:00:00.000Z') },
+				OR: [{ role: 'admin' as const }, { status: 'active' as const }],
+			},
+		};
+
+		const query = stringifyListQuery<typeof users>(params);
+
+		expect(query).toBe(
+			'page=1&search=a%26b&orderBy=-name&filters[id][between]=1,&filters[name][in][0]=Ana&filters[name][in][1]=Lee,%20Bruce&filters[createdAt][gte]=2024-01-01T00%3A00%3A00.000Z&filters[OR][0][role]=admin&filters[OR][1][status]=active',
+		);
+		expect(parse(query)).toEqual(params);
+	});
+
+	test('round trips every filter feature', () => {
+		const postsOptions: ListQueryOptions<typeof posts> = {
+			allowedFilters: [
+				'title',
+				'status',
+				'excerpt',
+				'viewCount',
+				'metadata',
+				'publishedAt',
+				'createdAt',
+				'updatedAt',
+			],
+			allowedJsonPaths: ['metadata.seo.score', 'metadata.seo.keywords'],
+			relations: {
+				comments: { table: comments, allowedFilters: ['status', 'content'] },
+			},
+		};
+
+		const params: ListParams<typeof posts, typeof db> = {
+			filters: {
+				excerpt: { isNull: true },
+				viewCount: { between: [10, null], bounds: '(]' },
+				metadata: { path: '$.featured', equals: true },
+				'metadata.seo.score': { gte: 80 },
+				'metadata.seo.keywords': { has: 'orm', hasNone: ['php', 'perl'] },
+				title: { istartsWith: 'Hello', notLike: '%draft%' },
+				OR: [{ status: 'published' }, { NOT: { status: 'archived' } }],
+				comments: {
+					some: { status: 'approved' },
+					none: { content: { contains: 'spam, eggs' } },
+				},
+				publishedAt: { within: '7d' },
+				createdAt: { period: 'thisMonth', tz: 'Europe/Lisbon' },
+				updatedAt: { olderThan: '30d' },
+			},
+		};
+
+		const query = stringifyListQuery(params);
+
+		expect(query).toContain('filters[comments][some][status]=approved');
+		expect(query).toContain('filters[metadata.seo.score][gte]=80');
+		expect(
+			parseListQuery<typeof posts, typeof db>(query, posts, postsOptions),
+		).toEqual(params);
+
+		expect(() =>
+			parseListQuery(
+				'filters[comments][some][authorId]=1',
+				posts,
+				postsOptions,
+			),
+		).toThrow('Field "authorId" is not an allowed filter');
+		expect(() =>
+			parseListQuery('filters[metadata.secret]=1', posts, postsOptions),
+		).toThrow('Field "metadata.secret" is not an allowed filter');
+		expect(() =>
+			parseListQuery(
+				'filters[comments][any][status]=spam',
+				posts,
+				postsOptions,
+			),
+		).toThrow('Invalid filter "comments"');
+
+		// The path operator needs the path, not the column, to be allowed
+		const pathOptions: ListQueryOptions<typeof posts> = {
+			allowedFilters: ['title'],
+			allowedJsonPaths: ['metadata.seo.score'],
+		};
+		const pathParams: ListParams<typeof posts, typeof db> = {
+			filters: { metadata: { path: '$.seo.score', gte: 50 } },
+		};
+
+		expect(
+			parseListQuery<typeof posts, typeof db>(
+				stringifyListQuery(pathParams),
+				posts,
+				pathOptions,
+			),
+		).toEqual(pathParams);
+		expect(() =>
+			parseListQuery(
+				'filters[metadata][path]=$.secret&filters[metadata][equals]=1',
+				posts,
+				pathOptions,
+			),
+		).toThrow('Field "metadata" is not an allowed filter');
+	});
+
+	test('writes null comparisons as isNull and isNotNull', () => {
+		const query = stringifyListQuery<typeof users>({
+			filters: { bio: null, avatarUrl: { not: null } },
+		});
+
+		expect(query).toBe(
+			'filters[bio][isNull]=true&filters[avatarUrl][isNotNull]=true',
+		);
+		expect(
+			parseListQuery(query, users, { allowedFilters: ['bio', 'avatarUrl'] })
+				.filters,
+		).toEqual({ bio: { isNull: true }, avatarUrl: { isNotNull: true } });
+
+		expect(() =>
+			stringifyListQuery<typeof users>({
+				filters: { bio: { in: ['a', null] } },
+			}),
+		).toThrow('Cannot write null for "bio" in a query string');
+	});
+
+	test('lists with the parsed params', async () => {
+		const result = await usersCrud.list(
+			parse('filters[role][in]=admin,viewer&orderBy=-name'),
+		);
+
+		expect(result.results.map((user) => user.name)).toEqual(['Caio', 'Ana']);
+	});
+
+	test('rejects keys that reach the prototype', () => {
+		expect(() => parse('filters[__proto__][polluted]=1')).toThrow(
+			'Invalid filter "__proto__"',
+		);
+		expect(() => parse('filters[constructor][prototype][polluted]=1')).toThrow(
+			'Invalid filter "constructor"',
+		);
+		expect(() => parse('filters[name][prototype]=1')).toThrow(
+			'Invalid filter "prototype"',
+		);
+		expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+		expect(
+			(Object.prototype as unknown as Record<string, unknown>).polluted,
+		).toBeUndefined();
+	});
+
+	test('rejects fields that are not allowed and invalid values', () => {
+		expect(() => parse('filters[email]=ana@query.com')).toThrow(
+			'Field "email" is not an allowed filter',
+		);
+		expect(() => parse('filters[OR][0][password]=x')).toThrow(
+			'Field "password" is not an allowed filter',
+		);
+		expect(() => parse('filters[id][gt]=abc')).toThrow(
+			'Invalid number "abc" for "id"',
+		);
+		expect(() => parse('filters[createdAt][gte]=soon')).toThrow(
+			'Invalid date "soon" for "createdAt"',
+		);
+		expect(() => parse('filters[name][matches]=A')).toThrow(
+			'Unknown filter operator "matches"',
+		);
+		expect(() => parse('page=-1')).toThrow('Invalid page "-1"');
+		expect(() => parse('orderBy=name:sideways')).toThrow(
+			'Invalid orderBy "name:sideways"',
+		);
+	});
+});
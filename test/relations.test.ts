@@ -0,0 +1,586 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { db } from '../exemples/client';
+import { categories, comments, posts, users } from '../exemples/schema';
+import { drizzleCrud } from '../src/index';
+import { zod } from '../src/zod';
+
+const crud = drizzleCrud(db, { validation: zod() });
+
+const usersCrud = crud(users, {
+	searchFields: ['name'],
+	allowedFilters: ['role'],
+	softDelete: {
+		field: 'deletedAt',
+		deletedValue: new Date(),
+		notDeletedValue: null,
+	},
+});
+
+const postsCrud = crud(posts, {
+	allowedFilters: ['status', 'authorId'],
+});
+
+const commentsCrud = crud(comments, {
+	scopeFilters: {
+		workspaceId: (value) =>
+			value ? eq(comments.workspaceId, value) : undefined,
+	},
+});
+
+describe('Relational Queries', () => {
+	let authorId: number;
+	let deletedAuthorId: number;
+	let postId: number;
+
+	beforeAll(async () => {
+		await db.delete(comments);
+		await db.delete(posts);
+		await db.delete(users);
+
+		const author = await usersCrud.create({
+			email: 'author@relations.com',
+			name: 'Author',
+			role: 'editor',
+		});
+		const reader = await usersCrud.create({
+			email: 'reader@relations.com',
+			name: 'Reader',
+			role: 'viewer',
+		});
+		const deleted = await usersCrud.create({
+			email: 'deleted@relations.com',
+			name: 'Deleted Author',
+			role: 'editor',
+		});
+		authorId = author.id;
+		deletedAuthorId = deleted.id;
+
+		await usersCrud.deleteOne(deleted.id);
+
+		for (const [index, status] of ['published', 'draft'].entries()) {
+			const post = await postsCrud.create({
+				title: `Post ${index}`,
+				slug: `relations-post-${index}`,
+				content: 'Lorem ipsum',
+				status: status as 'published' | 'draft',
+				authorId: author.id,
+			});
+			postId ??= post.id;
+		}
+
+		await commentsCrud.create({
+			content: 'Great post',
+			postId,
+			authorId: reader.id,
+			workspaceId: 1,
+		});
+		await commentsCrud.create({
+			content: 'Comment from a deleted user',
+			postId,
+			authorId: deletedAuthorId,
+			workspaceId: 2,
+		});
+
+		await postsCrud.create({
+			title: 'Reader post',
+			slug: 'relations-reader-post',
+			content: 'Lorem ipsum',
+			status: 'published',
+			authorId: reader.id,
+		});
+	});
+
+	describe('list()', () => {
+		test('loads many relations with `with`', async () => {
+			const result = await usersCrud.list({
+				with: { posts: true },
+				orderBy: [{ field: 'name', direction: 'asc' }],
+			});
+
+			expect(result.results.map((user) => user.name)).toEqual([
+				'Author',
+				'Reader',
+			]);
+			expect(result.results[0].posts).toHaveLength(2);
+			expect(result.results[1].posts).toHaveLength(1);
+			expect(result.totalItems).toBe(2);
+		});
+
+		test('loads one relations with `with`', async () => {
+			const result = await postsCrud.list({
+				with: { author: true },
+				filters: { status: 'published' },
+			});
+
+			expect(result.results).toHaveLength(2);
+			for (const post of result.results) {
+				expect(post.author.id).toBe(post.authorId);
+			}
+		});
+
+		test('still applies filters, search and soft delete', async () => {
+			const result = await usersCrud.list({
+				with: { posts: true },
+				search: 'Author',
+				filters: { role: 'editor' },
+			});
+
+			expect(result.results).toHaveLength(1);
+			expect(result.results[0].id).toBe(authorId);
+			expect(result.results.some((user) => user.id === deletedAuthorId)).toBe(
+				false,
+			);
+		});
+
+		test('narrows columns of the root and related rows', async () => {
+			const result = await usersCrud.list({
+				columns: { name: true },
+				with: { posts: { columns: { title: true } } },
+				filters: { role: 'editor' },
+			});
+
+			expect(result.results).toEqual([
+				{ name: 'Author', posts: [{ title: 'Post 0' }, { title: 'Post 1' }] },
+			]);
+		});
+
+		test('works with cursor pagination', async () => {
+			const first = await usersCrud.list({
+				cursor: true,
+				perPage: 1,
+				with: { posts: true },
+				orderBy: [{ field: 'name', direction: 'desc' }],
+			});
+
+			expect(first.results[0].name).toBe('Reader');
+			expect(first.results[0].posts).toHaveLength(1);
+
+			const second = await usersCrud.list({
+				after: first.nextCursor!,
+				perPage: 1,
+				with: { posts: true },
+				orderBy: [{ field: 'name', direction: 'desc' }],
+			});
+
+			expect(second.results[0].name).toBe('Author');
+			expect(second.hasNextPage).toBe(false);
+		});
+	});
+
+	describe('findOne()', () => {
+		test('loads nested relations', async () => {
+			const post = await postsCrud.findOne(
+				{ id: postId },
+				{ with: { comments: { with: { author: true } } } },
+			);
+
+			expect(post?.comments).toHaveLength(2);
+
+			const authors = post?.comments.map((comment) => comment.author?.name);
+			expect(authors).toContain('Reader');
+		});
+
+		test('hides soft deleted rows of related tables', async () => {
+			const post = await postsCrud.findOne(
+				{ id: postId },
+				{ with: { comments: { with: { author: true } } } },
+			);
+
+			const orphan = post?.comments.find(
+				(comment) => comment.authorId === deletedAuthorId,
+			);
+			expect(orphan?.author).toBeNull();
+
+			const user = await usersCrud.findOne(
+				{ id: authorId },
+				{ with: { posts: { with: { author: true } } } },
+			);
+			expect(user?.posts.every((item) => item.author?.id === authorId)).toBe(
+				true,
+			);
+		});
+
+		test('returns null for a soft deleted target of a one relation', async () => {
+			const post = await postsCrud.create({
+				title: 'Orphan post',
+				slug: 'relations-orphan-post',
+				content: 'Lorem ipsum',
+				authorId: deletedAuthorId,
+			});
+
+			// authorId is not null, yet the author is hidden
+			const found = await postsCrud.findOne(
+				{ id: post.id },
+				{ with: { author: true } },
+			);
+			expect(found?.author).toBeNull();
+
+			await postsCrud.deleteOne(post.id);
+		});
+
+		test('narrows columns', async () => {
+			const post = await postsCrud.findOne(
+				{ id: postId },
+				{
+					columns: { title: true },
+					with: { author: { columns: { name: true } } },
+				},
+			);
+
+			expect(post).toEqual({ title: 'Post 0', author: { name: 'Author' } });
+		});
+
+		test('applies scope filters to the root row', async () => {
+			const comment = await commentsCrud.findOne(
+				{ content: 'Great post' },
+				{ with: { post: true } },
+				{ scope: { workspaceId: 2 } },
+			);
+			expect(comment).toBeNull();
+
+			const scoped = await commentsCrud.findOne(
+				{ content: 'Great post' },
+				{ with: { post: true } },
+				{ scope: { workspaceId: 1 } },
+			);
+			expect(scoped?.post.id).toBe(postId);
+		});
+
+		test('applies soft delete to the root row', async () => {
+			const user = await usersCrud.findOne(
+				{ id: deletedAuthorId },
+				{ with: { posts: true } },
+			);
+			expect(user).toBeNull();
+
+			const withDeleted = await usersCrud.findOne(
+				{ id: deletedAuthorId },
+				{ with: { comments: true }, includeDeleted: true },
+			);
+			expect(withDeleted?.comments).toHaveLength(1);
+		});
+	});
+
+	describe('columns', () => {
+		test('narrows list() without relations', async () => {
+			const result = await postsCrud.list({
+				columns: { id: true, title: true },
+				orderBy: [{ field: 'title', direction: 'asc' }],
+			});
+
+			expect(result.results[0]).toEqual({
+				id: expect.any(Number),
+				title: 'Post 0',
+			});
+			// @ts-expect-error content was not selected
+			expect(result.results[0].content).toBeUndefined();
+		});
+
+		test('excludes columns set to false', async () => {
+			const result = await postsCrud.list({
+				columns: { content: false },
+				cursor: true,
+				perPage: 1,
+				orderBy: [{ field: 'slug', direction: 'asc' }],
+			});
+
+			expect(result.results[0]).not.toHaveProperty('content');
+			expect(result.results[0].slug).toBe('relations-post-0');
+			expect(result.nextCursor).toBeString();
+		});
+
+		test('drops keyset columns that were not requested', async () => {
+			const result = await postsCrud.list({
+				columns: { title: true },
+				cursor: true,
+				perPage: 1,
+				orderBy: [{ field: 'slug', direction: 'desc' }],
+			});
+
+			expect(result.results).toEqual([{ title: 'Reader post' }]);
+
+			const next = await postsCrud.list({
+				columns: { title: true },
+				after: result.nextCursor!,
+				perPage: 1,
+				orderBy: [{ field: 'slug', direction: 'desc' }],
+			});
+
+			expect(next.results).toEqual([{ title: 'Post 1' }]);
+		});
+
+		test('narrows findOne()', async () => {
+			const user = await usersCrud.findOne(
+				{ id: authorId },
+				{ columns: { email: true } },
+			);
+
+			expect(user).toEqual({ email: 'author@relations.com' });
+		});
+
+		test('narrows the rows returned by mutations', async () => {
+			const created = await usersCrud.create(
+				{ email: 'columns@relations.com', name: 'Columns', role: 'viewer' },
+				{ columns: { id: true, name: true } },
+			);
+
+			expect(created).toEqual({ id: expect.any(Number), name: 'Columns' });
+
+			const updated = await usersCrud.update(
+				created.id,
+				{ name: 'Columns Updated' },
+				{ columns: { name: true } },
+			);
+
+			expect(updated).toEqual({ name: 'Columns Updated' });
+
+			const bulk = await usersCrud.bulkCreate(
+				[{ email: 'bulk-columns@relations.com', name: 'Bulk', role: 'viewer' }],
+				{ columns: { email: true } },
+			);
+
+			expect(bulk.items).toEqual([{ email: 'bulk-columns@relations.com' }]);
+
+			await db.delete(users).where(eq(users.id, created.id));
+			await db
+				.delete(users)
+				.where(eq(users.email, 'bulk-columns@relations.com'));
+		});
+	});
+
+	describe('search across relations', () => {
+		const postsByAuthorCrud = crud(posts, {
+			searchFields: ['title', 'author.name'],
+		});
+
+		test('matches the field of a one relation', async () => {
+			const result = await postsByAuthorCrud.list({ search: 'reader' });
+
+			expect(result.results.map((post) => post.title)).toEqual(['Reader post']);
+		});
+
+		test('combines related and own fields across terms', async () => {
+			const result = await postsByAuthorCrud.list({
+				search: 'author post 1',
+			});
+
+			expect(result.results.map((post) => post.title)).toEqual(['Post 1']);
+		});
+
+		test('does not duplicate rows through a many relation', async () => {
+			const authorsCrud = crud(users, {
+				searchFields: ['posts.title'],
+				softDelete: { field: 'deletedAt' },
+			});
+
+			const result = await authorsCrud.list({ search: 'post' });
+
+			expect(result.results.map((user) => user.name).sort()).toEqual([
+				'Author',
+				'Reader',
+			]);
+			expect(result.totalItems).toBe(2);
+		});
+
+		test('ignores soft deleted related rows', async () => {
+			const commentsByAuthorCrud = crud(comments, {
+				searchFields: ['author.name'],
+			});
+
+			const reader = await commentsByAuthorCrud.list({ search: 'reader' });
+			expect(reader.results).toHaveLength(1);
+
+			const deleted = await commentsByAuthorCrud.list({ search: 'deleted' });
+			expect(deleted.results).toHaveLength(0);
+		});
+
+		test('supports relations to the same table', async () => {
+			await db.delete(categories);
+
+			const [parent] = await db
+				.insert(categories)
+				.values({ name: 'Tech', slug: 'tech' })
+				.returning();
+			await db.insert(categories).values([
+				{ name: 'Drizzle', slug: 'drizzle', parentId: parent.id },
+				{ name: 'Technology', slug: 'technology' },
+			]);
+
+			const categoriesCrud = crud(categories, {
+				searchFields: ['parent.name'],
+			});
+
+			const result = await categoriesCrud.list({ search: 'tech' });
+
+			expect(result.results.map((category) => category.name)).toEqual([
+				'Drizzle',
+			]);
+
+			await db.delete(categories);
+		});
+
+		test('rejects unknown relations', async () => {
+			const invalidCrud = crud(posts, {
+				// @ts-expect-error editor is not a relation of posts
+				searchFields: ['editor.name'],
+			});
+
+			await expect(invalidCrud.list({ search: 'x' })).rejects.toThrow(
+				'Unknown relation "editor" on table "posts"',
+			);
+		});
+	});
+
+	describe('orderBy related fields', () => {
+		test('sorts by a field of a to-one relation', async () => {
+			const result = await postsCrud.list({
+				orderBy: [
+					{ field: 'author.name', direction: 'desc' },
+					{ field: 'title', direction: 'asc' },
+				],
+			});
+
+			expect(result.results.map((post) => post.title)).toEqual([
+				'Reader post',
+				'Post 0',
+				'Post 1',
+			]);
+		});
+
+		test('only accepts to-one relations', async () => {
+			await expect(
+				usersCrud.list({
+					// @ts-expect-error posts is a many relation
+					orderBy: [{ field: 'posts.title', direction: 'asc' }],
+				}),
+			).rejects.toThrow();
+		});
+
+		test('is not available with cursor pagination', async () => {
+			await expect(
+				postsCrud.list({
+					cursor: true,
+					orderBy: [{ field: 'author.name', direction: 'asc' }],
+				}),
+			).rejects.toThrow('Cursor pagination cannot be ordered by "author.name"');
+		});
+	});
+
+	describe('relation filters', () => {
+		// A factory of their own, so the allowlists below are the registered ones
+		const filtersCrud = drizzleCrud(db, { validation: zod() });
+
+		const authorsCrud = filtersCrud(users, {
+			allowedFilters: ['role'],
+			allowedRelationFilters: ['posts'],
+			softDelete: {
+				field: 'deletedAt',
+				deletedValue: new Date(),
+				notDeletedValue: null,
+			},
+		});
+		const articlesCrud = filtersCrud(posts, {
+			allowedFilters: ['status'],
+			allowedRelationFilters: ['comments'],
+		});
+		filtersCrud(comments, {
+			allowedFilters: ['content'],
+			allowedRelationFilters: ['author'],
+		});
+
+		const names = (result: { results: { name: string }[] }) =>
+			result.results.map((user) => user.name).sort();
+
+		test('filters by some, none and every related row', async () => {
+			const some = await authorsCrud.list({
+				filters: { posts: { some: { status: 'draft' } } },
+			});
+			expect(names(some)).toEqual(['Author']);
+
+			const none = await authorsCrud.list({
+				filters: { posts: { none: { status: 'draft' } } },
+			});
+			expect(names(none)).toEqual(['Reader']);
+
+			const every = await authorsCrud.list({
+				filters: { posts: { every: { status: 'published' } } },
+			});
+			expect(names(every)).toEqual(['Reader']);
+
+			// Without posts, every post is trivially published
+			const withDeleted = await authorsCrud.list({
+				filters: { posts: { every: { status: 'published' } } },
+				includeDeleted: true,
+			});
+			expect(names(withDeleted)).toEqual(['Deleted Author', 'Reader']);
+		});
+
+		test('nests relations and hides soft deleted related rows', async () => {
+			const byViewers = await articlesCrud.list({
+				filters: {
+					comments: { some: { author: { some: { role: 'viewer' } } } },
+				},
+			});
+			expect(byViewers.results.map((post) => post.title)).toEqual(['Post 0']);
+
+			// The only editor who commented is soft deleted
+			const byEditors = await articlesCrud.list({
+				filters: {
+					comments: { some: { author: { some: { role: 'editor' } } } },
+				},
+			});
+			expect(byEditors.results).toEqual([]);
+		});
+
+		test('combines with the other filters', async () => {
+			const result = await authorsCrud.list({
+				filters: {
+					OR: [
+						{ role: 'viewer' },
+						{ NOT: { posts: { some: { status: 'published' } } } },
+					],
+				},
+				includeDeleted: true,
+			});
+
+			expect(names(result)).toEqual(['Deleted Author', 'Reader']);
+		});
+
+		test("obeys the related table's allowlist", async () => {
+			// title is not an allowed filter of posts, so it is ignored
+			const result = await authorsCrud.list({
+				filters: { posts: { some: { title: 'Post 1', status: 'draft' } } },
+			});
+			expect(names(result)).toEqual(['Author']);
+
+			const tags = await articlesCrud.list({
+				// tags is not in allowedRelationFilters
+				filters: { tags: { some: {} } },
+			});
+			expect(tags.totalItems).toBe(3);
+
+			expect(() =>
+				filtersCrud(users, {
+					// @ts-expect-error followers is not a relation of users
+					allowedRelationFilters: ['followers'],
+				}),
+			).toThrow('Unknown relation "followers" on table "users"');
+		});
+
+		test('requires a crud for the related table', async () => {
+			const noRegistry = drizzleCrud(db);
+			const authorsOnly = noRegistry(users, {
+				allowedRelationFilters: ['posts'],
+			});
+
+			await expect(
+				authorsOnly.list({
+					filters: { posts: { some: { status: 'draft' } } },
+				}),
+			).rejects.toThrow(
+				'Relation "posts" cannot be filtered without a crud for its table',
+			);
+		});
+	});
+});
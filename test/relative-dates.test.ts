@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { db } from '../exemples/client';
+import { comments, posts, users } from '../exemples/schema';
+import { drizzleCrud } from '../src/index';
+import type { FilterParams } from '../src/types';
+import { zod } from '../src/zod';
+
+let now = new Date('2024-03-01T02:00:00.000Z');
+
+const crud = drizzleCrud(db, { validation: zod() });
+
+const usersCrud = crud(users, {
+	allowedFilters: ['createdAt'],
+	clock: () => now,
+});
+
+describe('Relative date filters', () => {
+	beforeAll(async () => {
+		await db.delete(comments);
+		await db.delete(posts);
+		await db.delete(users);
+
+		const dates = {
+			A: '2024-02-29T23:00:00.000Z', // New York: Feb 29, 19:00
+			B: '2024-03-01T01:00:00.000Z', // New York: Feb 29, 21:00
+			C: '2024-03-01T05:00:00.000Z', // New York: Mar 1, 00:00
+			D: '2024-01-15T12:00:00.000Z',
+			E: '2023-12-31T12:00:00.000Z',
+			F: '2024-03-31T23:30:00.000Z', // Lisbon: Apr 1, 00:30 (summer time)
+		};
+
+		await db.insert(users).values(
+			Object.entries(dates).map(([name, createdAt]) => ({
+				email: `${name.toLowerCase()}@dates.com`,
+				name,
+				createdAt: new Date(createdAt),
+			})),
+		);
+	});
+
+	afterAll(async () => {
+		now = new Date('2024-03-01T02:00:00.000Z');
+		await db.delete(users);
+	});
+
+	const names = async (filters: FilterParams<typeof users.$inferSelect>) => {
+		const result = await usersCrud.list({
+			filters,
+			orderBy: [{ field: 'name', direction: 'asc' }],
+		});
+
+		return result.results.map((user) => user.name);
+	};
+
+	test('within and olderThan', async () => {
+		expect(await names({ createdAt: { within: '1d' } })).toEqual(['A', 'B']);
+		expect(await names({ createdAt: { within: '2h' } })).toEqual(['B']);
+		expect(await names({ createdAt: { olderThan: '30d' } })).toEqual([
+			'D',
+			'E',
+		]);
+	});
+
+	test('calendar periods in UTC', async () => {
+		expect(await names({ createdAt: { period: 'today' } })).toEqual(['B', 'C']);
+		expect(await names({ createdAt: { period: 'yesterday' } })).toEqual(['A']);
+		expect(await names({ createdAt: { period: 'thisWeek' } })).toEqual([
+			'A',
+			'B',
+			'C',
+		]);
+		expect(await names({ createdAt: { period: 'thisMonth' } })).toEqual([
+			'B',
+			'C',
+			'F',
+		]);
+		expect(await names({ createdAt: { period: 'lastMonth' } })).toEqual(['A']);
+		expect(await names({ createdAt: { period: 'lastYear' } })).toEqual(['E']);
+	});
+
+	test('calendar periods in a time zone', async () => {
+		const tz = 'America/New_York';
+
+		expect(await names({ createdAt: { period: 'today', tz } })).toEqual([
+			'A',
+			'B',
+		]);
+		// March starts at 05:00 UTC in New York, C is on its first instant
+		expect(await names({ createdAt: { period: 'thisMonth', tz } })).toEqual([
+			'A',
+			'B',
+		]);
+	});
+
+	test('follows daylight saving time changes', async () => {
+		now = new Date('2024-04-10T12:00:00.000Z');
+
+		// March started in winter time (UTC+0) and ended in summer time (UTC+1)
+		expect(
+			await names({
+				createdAt: { period: 'lastMonth', tz: 'Europe/Lisbon' },
+			}),
+		).toEqual(['B', 'C']);
+		expect(
+			await names({
+				createdAt: { period: 'thisMonth', tz: 'Europe/Lisbon' },
+			}),
+		).toEqual(['F']);
+		expect(await names({ createdAt: { period: 'lastMonth' } })).toEqual([
+			'B',
+			'C',
+			'F',
+		]);
+
+		now = new Date('2024-03-01T02:00:00.000Z');
+	});
+
+	test('rejects invalid durations, periods and time zones', async () => {
+		await expect(
+			// @ts-expect-error the unit is a single letter
+			names({ createdAt: { within: '7 days' } }),
+		).rejects.toThrow('Invalid duration "7 days"');
+
+		await expect(
+			// @ts-expect-error someday is not a period
+			names({ createdAt: { period: 'someday' } }),
+		).rejects.toThrow('Unknown period "someday"');
+
+		await expect(
+			names({ createdAt: { period: 'today', tz: 'Mars/Olympus' } }),
+		).rejects.toThrow('Invalid time zone "Mars/Olympus"');
+	});
+});
@@ -0,0 +1,304 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { eq, type SQLWrapper, sql } from 'drizzle-orm';
+import { db } from '../exemples/client';
+import { comments, posts, users } from '../exemples/schema';
+import { drizzleCrud, fullTextSearchTable } from '../src/index';
+import { zod } from '../src/zod';
+
+const crud = drizzleCrud(db, { validation: zod() });
+
+const usersCrud = crud(users, {
+	searchFields: ['name', 'email'],
+});
+
+const prefixCrud = crud(users, {
+	searchFields: ['name'],
+	searchMode: 'prefix',
+});
+
+// Stands in for the lower() of the ICU extension or a registered function
+const unicodeLower = (value: SQLWrapper) =>
+	sql`lower(replace(replace(replace(${value}, 'É', 'é'), 'Á', 'á'), 'Ó', 'ó'))`;
+
+const unicodeCrud = crud(users, {
+	searchFields: ['name'],
+	caseFold: unicodeLower,
+});
+
+const names = [
+	'Alice Martin',
+	'Élodie Durand',
+	'ÉMILE Zola',
+	'JOSÉ ÁLVARO',
+	'100% Pure',
+	'1000 Pure',
+	'a_b',
+	'Garcia, Bruno',
+];
+
+describe('Search', () => {
+	beforeAll(async () => {
+		await db.delete(comments);
+		await db.delete(posts);
+		await db.delete(users);
+
+		for (const [index, name] of names.entries()) {
+			await usersCrud.create({ email: `user${index}@search.com`, name });
+		}
+	});
+
+	const search = async (
+		term: string,
+		searchMode?: 'contains' | 'prefix' | 'exact',
+	) => {
+		const result = await usersCrud.list({ search: term, searchMode });
+		return result.results.map((user) => user.name).sort();
+	};
+
+	test('is case-insensitive', async () => {
+		expect(await search('ALICE')).toEqual(['Alice Martin']);
+		expect(await search('martin')).toEqual(['Alice Martin']);
+	});
+
+	test('lowers the term and the values the same way', async () => {
+		expect(await search('Élodie')).toEqual(['Élodie Durand']);
+		expect(await search('ÉLODIE')).toEqual(['Élodie Durand']);
+		expect(await search('Émile zola')).toEqual(['ÉMILE Zola']);
+		expect(await search('Émile Zola', 'exact')).toEqual(['ÉMILE Zola']);
+	});
+
+	test('folds Unicode text with the configured caseFold', async () => {
+		const unicodeSearch = async (
+			term: string,
+			searchMode?: 'contains' | 'prefix' | 'exact',
+		) => {
+			const result = await unicodeCrud.list({ search: term, searchMode });
+			return result.results.map((user) => user.name).sort();
+		};
+
+		expect(await unicodeSearch('josé')).toEqual(['JOSÉ ÁLVARO']);
+		expect(await unicodeSearch('élodie', 'prefix')).toEqual(['Élodie Durand']);
+		expect(await unicodeSearch('josé álvaro', 'exact')).toEqual([
+			'JOSÉ ÁLVARO',
+		]);
+
+		// A function registered on the connection is given by name
+		const namedCrud = crud(users, {
+			searchFields: ['name'],
+			caseFold: 'unicode_lower',
+		});
+		await expect(namedCrud.list({ search: 'josé' })).rejects.toThrow(
+			'"unicode_lower"("users"."name") like "unicode_lower"(?)',
+		);
+	});
+
+	test('escapes LIKE wildcards in the term', async () => {
+		expect(await search('100%')).toEqual(['100% Pure']);
+		expect(await search('a_b')).toEqual(['a_b']);
+		expect(await search('%')).toEqual(['100% Pure']);
+	});
+
+	test('prefix mode matches the start of the value', async () => {
+		expect(await search('pure', 'prefix')).toEqual([]);
+		expect(await search('100', 'prefix')).toEqual(['100% Pure', '1000 Pure']);
+	});
+
+	test('exact mode matches the whole value', async () => {
+		expect(await search('1000 pure', 'exact')).toEqual(['1000 Pure']);
+		expect(await search('1000', 'exact')).toEqual([]);
+	});
+
+	test('matches every term in any order', async () => {
+		expect(await search('bruno garcia')).toEqual(['Garcia, Bruno']);
+		expect(await search('garcia   BRUNO')).toEqual(['Garcia, Bruno']);
+		expect(await search('bruno alice')).toEqual([]);
+	});
+
+	test('matches each term against any of the searchFields', async () => {
+		expect(await search('alice user0@')).toEqual(['Alice Martin']);
+		expect(await search('alice user1@')).toEqual([]);
+	});
+
+	test('orders by the weighted relevance score', async () => {
+		const weightedCrud = crud(users, {
+			searchFields: ['name', 'email'],
+			searchWeights: { name: 5 },
+		});
+
+		const fan = await weightedCrud.create({
+			email: 'martin.fan@search.com',
+			name: 'Zoe',
+		});
+
+		const result = await weightedCrud.list({
+			search: 'martin',
+			orderBy: [{ field: '$relevance', direction: 'desc' }],
+		});
+
+		expect(result.results.map((user) => user.name)).toEqual([
+			'Alice Martin',
+			'Zoe',
+		]);
+
+		const reversed = await weightedCrud.list({
+			search: 'martin',
+			orderBy: [
+				{ field: '$relevance', direction: 'asc' },
+				{ field: 'name', direction: 'asc' },
+			],
+		});
+
+		expect(reversed.results.map((user) => user.name)).toEqual([
+			'Zoe',
+			'Alice Martin',
+		]);
+
+		await db.delete(users).where(eq(users.id, fan.id));
+	});
+
+	test('uses the searchMode of the crud by default', async () => {
+		const result = await prefixCrud.list({ search: 'alice' });
+		expect(result.results.map((user) => user.name)).toEqual(['Alice Martin']);
+
+		const none = await prefixCrud.list({ search: 'martin' });
+		expect(none.results).toHaveLength(0);
+	});
+});
+
+describe('Full-text Search', () => {
+	const postsFts = fullTextSearchTable(posts, {
+		fields: ['title', 'content'],
+	});
+
+	const postsCrud = crud(posts, {
+		searchFields: ['title', 'content'],
+		allowedFilters: ['status'],
+		fullTextSearch: { table: postsFts.name },
+		scopeFilters: {
+			authorId: (value) => (value ? eq(posts.authorId, value) : undefined),
+		},
+	});
+
+	let authorId: number;
+
+	beforeAll(async () => {
+		await db.delete(comments);
+		await db.delete(posts);
+
+		const [author] = await db.select().from(users).limit(1);
+		authorId = author.id;
+
+		const rows = [
+			['Drizzle basics', 'An introduction to the ORM', 'published'],
+			['Drizzle drizzle drizzle', 'All about drizzle', 'published'],
+			['Cooking pasta', 'Boil water, add drizzle of olive oil', 'draft'],
+			['Gardening', 'Nothing to see here', 'published'],
+		] as const;
+
+		for (const [index, [title, content, status]] of rows.entries()) {
+			await postsCrud.create({
+				title,
+				content,
+				status,
+				slug: `fts-post-${index}`,
+				authorId,
+			});
+		}
+
+		for (const statement of postsFts.statements) {
+			await db.run(sql.raw(statement));
+		}
+	});
+
+	const titles = (result: { results: { title: string }[] }) =>
+		result.results.map((post) => post.title);
+
+	test('matches words with MATCH', async () => {
+		const result = await postsCrud.list({
+			search: 'DRIZZLE',
+			orderBy: [{ field: 'title', direction: 'asc' }],
+		});
+
+		expect(titles(result)).toEqual([
+			'Cooking pasta',
+			'Drizzle basics',
+			'Drizzle drizzle drizzle',
+		]);
+	});
+
+	test('matches word prefixes and every token', async () => {
+		const result = await postsCrud.list({ search: 'intro orm' });
+		expect(titles(result)).toEqual(['Drizzle basics']);
+
+		const exact = await postsCrud.list({
+			search: 'intro orm',
+			searchMode: 'exact',
+		});
+		expect(exact.results).toHaveLength(0);
+	});
+
+	test('combines with filters and scope filters', async () => {
+		const result = await postsCrud.list(
+			{ search: 'drizzle', filters: { status: 'draft' } },
+			{ scope: { authorId } },
+		);
+		expect(titles(result)).toEqual(['Cooking pasta']);
+
+		const scoped = await postsCrud.list(
+			{ search: 'drizzle' },
+			{ scope: { authorId: -1 } },
+		);
+		expect(scoped.results).toHaveLength(0);
+	});
+
+	test('sorts by bm25 relevance', async () => {
+		const result = await postsCrud.list({
+			search: 'drizzle',
+			orderBy: [{ field: '$relevance', direction: 'desc' }],
+		});
+
+		expect(titles(result)[0]).toBe('Drizzle drizzle drizzle');
+		expect(titles(result).at(-1)).toBe('Cooking pasta');
+	});
+
+	test('maps the weights onto the columns of the FTS5 table', async () => {
+		// searchFields in another order than the indexed columns
+		const weightedCrud = crud(posts, {
+			searchFields: ['content', 'title'],
+			searchWeights: { content: 10, title: 0 },
+			fullTextSearch: { table: postsFts.name, fields: postsFts.fields },
+		});
+
+		const result = await weightedCrud.list({
+			search: 'drizzle',
+			orderBy: [{ field: '$relevance', direction: 'desc' }],
+		});
+
+		expect(titles(result).at(-1)).toBe('Drizzle basics');
+
+		expect(() =>
+			crud(posts, {
+				searchFields: ['title', 'excerpt'],
+				fullTextSearch: { table: postsFts.name, fields: postsFts.fields },
+			}),
+		).toThrow('Search field "excerpt" is not indexed by "posts_fts"');
+	});
+
+	test('treats FTS5 syntax in the term literally', async () => {
+		const result = await postsCrud.list({ search: 'NEAR("x" OR *' });
+		expect(result.results).toHaveLength(0);
+	});
+
+	test('stays in sync through the triggers', async () => {
+		const post = await postsCrud.findOne({ slug: 'fts-post-3' });
+		await postsCrud.update(post!.id, { content: 'Roses need a drizzle' });
+
+		const result = await postsCrud.list({ search: 'roses' });
+		expect(titles(result)).toEqual(['Gardening']);
+
+		await postsCrud.permanentDelete(post!.id);
+
+		const deleted = await postsCrud.list({ search: 'roses' });
+		expect(deleted.results).toHaveLength(0);
+	});
+});